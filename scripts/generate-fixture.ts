@@ -0,0 +1,45 @@
+/**
+ * Writes a synthetic commit history for benchmarking large timelines.
+ *
+ * Usage:
+ *   npm run fixture:generate -- [--count 60000] [--out public/fixtures/benchmark-commits.json]
+ *                               [--repo-name benchmark/large-repo] [--authors 500] [--years 20] [--seed 1]
+ *
+ * Load it in the app with the memory data source:
+ *   VITE_DATA_SOURCE=memory VITE_FIXTURE_URL=/fixtures/benchmark-commits.json npm run dev
+ * and open /timeline?repo=benchmark/large-repo
+ */
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { generateCommits } from '@/lib/fixtures/generate-commits';
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      count: { type: 'string', default: '60000' },
+      out: { type: 'string', default: 'public/fixtures/benchmark-commits.json' },
+      'repo-name': { type: 'string' },
+      authors: { type: 'string' },
+      years: { type: 'string' },
+      seed: { type: 'string' },
+    },
+  });
+
+  const commits = generateCommits({
+    count: Number(values.count),
+    repoName: values['repo-name'],
+    authors: values.authors ? Number(values.authors) : undefined,
+    years: values.years ? Number(values.years) : undefined,
+    seed: values.seed ? Number(values.seed) : undefined,
+  });
+
+  await mkdir(path.dirname(values.out), { recursive: true });
+  await writeFile(values.out, JSON.stringify(commits));
+  console.log(`Wrote ${commits.length} commits for ${commits[0]?.repo_name} to ${values.out}`);
+};
+
+main().catch(error => {
+  console.error('Fixture generation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+/**
+ * Ingests the history of a local git clone into the configured data source.
+ *
+ * Usage:
+ *   npm run ingest:git -- <repo-path> [--repo-name owner/repo] [--web-url https://...]
+ *                         [--since 2024-01-01] [--max-count 1000] [--rev main]
+ *                         [--branch main --branch release/1.x] [--dry-run]
+ *
+ * The data source and self-hosted forges are configured with the same VITE_* variables
+ * as the app (see .env.example).
+ * With --dry-run the commits and tags are printed as JSON (`{ commits, tags }`) instead of being written.
+ */
+import { parseArgs } from 'node:util';
+import { createDataSource, readDataSourceConfig } from '@/lib/data-source';
+import { configureForgeHosts } from '@/lib/forges';
+import { ingestGitRepository } from '@/lib/ingest/ingest-git-repo';
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'repo-name': { type: 'string' },
+      'web-url': { type: 'string' },
+      since: { type: 'string' },
+      'max-count': { type: 'string' },
+      rev: { type: 'string' },
+      branch: { type: 'string', multiple: true },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  configureForgeHosts(process.env.VITE_FORGE_HOSTS);
+
+  const repoPath = positionals[0] || '.';
+  const dryRun = values['dry-run'];
+
+  if (dryRun) {
+    // Keep stdout clean for the JSON output
+    console.log = console.error;
+  }
+
+  const { commits, tags } = await ingestGitRepository({
+    repoPath,
+    repoName: values['repo-name'],
+    webUrl: values['web-url'],
+    since: values.since,
+    maxCount: values['max-count'] ? Number(values['max-count']) : undefined,
+    rev: values.rev,
+    branches: values.branch,
+    dataSource: dryRun ? undefined : createDataSource(readDataSourceConfig(process.env)),
+  });
+
+  if (dryRun) {
+    process.stdout.write(JSON.stringify({ commits, tags }, null, 2) + '\n');
+  }
+};
+
+main().catch(error => {
+  console.error('Ingestion failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,22 @@
+import React, { useMemo } from 'react';
+import { CommitDataSource, createDataSource, readDataSourceConfig } from '@/lib/data-source';
+import { DataSourceContext } from '@/hooks/use-data-source';
+
+interface DataSourceProviderProps {
+  /** Overrides the environment-configured data source, e.g. in tests */
+  dataSource?: CommitDataSource;
+  children: React.ReactNode;
+}
+
+export const DataSourceProvider: React.FC<DataSourceProviderProps> = ({ dataSource, children }) => {
+  const value = useMemo(
+    () => dataSource || createDataSource(readDataSourceConfig(import.meta.env)),
+    [dataSource]
+  );
+
+  return (
+    <DataSourceContext.Provider value={value}>
+      {children}
+    </DataSourceContext.Provider>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, CheckCircle2, Loader2, RefreshCw, XIcon } from 'lucide-react';
+import { AnalysisJob } from '@/types';
+import { getAnalysisJobProgress, getAnalysisJobStatusLabel } from '@/utils/analysis-utils';
+import { cn } from '@/lib/utils';
+
+interface AnalysisProgressProps {
+  job: AnalysisJob;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  className?: string;
+}
+
+const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
+  job,
+  onRetry,
+  onDismiss,
+  className,
+}) => {
+  const progress = getAnalysisJobProgress(job);
+  const failed = job.status === 'failed';
+
+  return (
+    <div
+      className={cn(
+        'glass-morphism rounded-lg border p-6 animate-fade-in',
+        failed && 'border-destructive/50',
+        className
+      )}
+      role="status"
+      aria-live="polite"
+    >
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-center">
+          {failed ? (
+            <AlertCircle className="h-5 w-5 mr-3 text-destructive" />
+          ) : job.status === 'succeeded' ? (
+            <CheckCircle2 className="h-5 w-5 mr-3 text-primary" />
+          ) : (
+            <Loader2 className="h-5 w-5 mr-3 text-primary animate-spin" />
+          )}
+          <div>
+            <p className="font-medium">{getAnalysisJobStatusLabel(job)}</p>
+            <p className="text-sm text-muted-foreground">{job.repo_name}</p>
+          </div>
+        </div>
+        {onDismiss && (failed || job.status === 'succeeded') && (
+          <Button variant="ghost" size="icon" onClick={onDismiss} aria-label="Dismiss">
+            <XIcon className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {!failed && <Progress value={progress} className="h-2 mb-3" />}
+
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+        <span>
+          Fetched: <span className="font-medium text-foreground">{job.commits_fetched}</span>
+          {job.commits_total !== null && ` / ${job.commits_total}`}
+        </span>
+        <span>
+          Analyzed: <span className="font-medium text-foreground">{job.commits_analyzed}</span>
+          {job.commits_total !== null && ` / ${job.commits_total}`}
+        </span>
+      </div>
+
+      {failed && (
+        <div className="mt-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <p className="text-sm text-destructive">{job.error || 'The analysis job failed.'}</p>
+          {onRetry && (
+            <Button variant="outline" size="sm" onClick={onRetry}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Retry
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisProgress;
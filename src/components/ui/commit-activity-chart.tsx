@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, ReferenceArea, XAxis, YAxis } from 'recharts';
+import { ChartColumnStacked, ChartArea } from 'lucide-react';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Commit, CommitType, TimeScale } from '@/types';
+import { formatTimeInterval } from '@/utils/date-utils';
+import { getCommitTypeColor } from '@/utils/filter-utils';
+import { COMMIT_TYPES, getActivityBuckets, toggleVisibleType } from '@/utils/insights-utils';
+import { cn } from '@/lib/utils';
+
+interface CommitActivityChartProps {
+  commits: Commit[];
+  timeScale: TimeScale;
+  /** Type filter; an empty list shows every type */
+  types: CommitType[];
+  onTypesChange: (types: CommitType[]) => void;
+  /** Called with the date range brushed on the chart */
+  onRangeSelect: (from: Date, to: Date) => void;
+  className?: string;
+}
+
+type ChartKind = 'area' | 'bar';
+
+// The `commit-*` colors from tailwind.config.ts; SVG fills can't use Tailwind classes
+const chartConfig: ChartConfig = {
+  FEATURE: { label: 'Feature', color: '#8B5CF6' },
+  WARNING: { label: 'Warning', color: '#FBBF24' },
+  MILESTONE: { label: 'Milestone', color: '#10B981' },
+  BUG: { label: 'Bug', color: '#EF4444' },
+  CHORE: { label: 'Chore', color: '#6B7280' },
+};
+
+const CommitActivityChart: React.FC<CommitActivityChartProps> = ({
+  commits,
+  timeScale,
+  types,
+  onTypesChange,
+  onRangeSelect,
+  className,
+}) => {
+  const [chartKind, setChartKind] = useState<ChartKind>('bar');
+  // Bucket indexes of the range being brushed
+  const [brush, setBrush] = useState<{ from: number; to: number } | null>(null);
+  const buckets = useMemo(() => getActivityBuckets(commits, timeScale), [commits, timeScale]);
+  const visibleTypes = COMMIT_TYPES.filter(type => types.length === 0 || types.includes(type));
+
+  const handleBrushEnd = () => {
+    if (!brush) return;
+    setBrush(null);
+    const from = buckets[Math.min(brush.from, brush.to)];
+    const to = buckets[Math.max(brush.from, brush.to)];
+    onRangeSelect(new Date(from.start), new Date(to.end - 1));
+  };
+
+  // Both chart kinds share the axes, tooltip, brushing and series
+  const chartProps = {
+    data: buckets,
+    margin: { top: 8, right: 8, left: -16, bottom: 0 },
+    onMouseDown: ({ activeTooltipIndex }: { activeTooltipIndex?: number }) => {
+      if (activeTooltipIndex !== undefined) setBrush({ from: activeTooltipIndex, to: activeTooltipIndex });
+    },
+    onMouseMove: ({ activeTooltipIndex }: { activeTooltipIndex?: number }) => {
+      if (activeTooltipIndex !== undefined) setBrush(current => current && { ...current, to: activeTooltipIndex });
+    },
+    onMouseUp: handleBrushEnd,
+    onMouseLeave: () => setBrush(null),
+  };
+  const chartChildren = [
+    <CartesianGrid key="grid" vertical={false} />,
+    <XAxis
+      key="x"
+      dataKey="start"
+      tickLine={false}
+      axisLine={false}
+      minTickGap={24}
+      tickFormatter={value => formatTimeInterval(new Date(value), timeScale)}
+    />,
+    <YAxis key="y" tickLine={false} axisLine={false} allowDecimals={false} />,
+    <ChartTooltip
+      key="tooltip"
+      content={<ChartTooltipContent labelFormatter={(_, payload) => payload[0]?.payload.label} />}
+    />,
+    brush && (
+      <ReferenceArea
+        key="brush"
+        x1={buckets[Math.min(brush.from, brush.to)].start}
+        x2={buckets[Math.max(brush.from, brush.to)].start}
+        className="fill-primary/20"
+      />
+    ),
+  ];
+
+  return (
+    <div className={cn('bg-card rounded-lg border shadow-sm p-4', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div>
+          <h3 className="text-sm font-medium">Commits per {timeScale}</h3>
+          <p className="text-xs text-muted-foreground">Drag across the chart to narrow the date range</p>
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={chartKind}
+          onValueChange={value => value && setChartKind(value as ChartKind)}
+          aria-label="Chart type"
+        >
+          <ToggleGroupItem value="bar" aria-label="Stacked bars">
+            <ChartColumnStacked className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="area" aria-label="Stacked areas">
+            <ChartArea className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full select-none">
+        {chartKind === 'area' ? (
+          <AreaChart {...chartProps}>
+            {chartChildren}
+            {visibleTypes.map(type => (
+              <Area
+                key={type}
+                dataKey={type}
+                type="monotone"
+                stackId="commits"
+                stroke={`var(--color-${type})`}
+                fill={`var(--color-${type})`}
+                fillOpacity={0.4}
+                isAnimationActive={false}
+              />
+            ))}
+          </AreaChart>
+        ) : (
+          <BarChart {...chartProps}>
+            {chartChildren}
+            {visibleTypes.map(type => (
+              <Bar key={type} dataKey={type} stackId="commits" fill={`var(--color-${type})`} isAnimationActive={false} />
+            ))}
+          </BarChart>
+        )}
+      </ChartContainer>
+
+      {/* Legend entries toggle the type filter */}
+      <div className="flex flex-wrap items-center justify-center gap-2 mt-3" role="group" aria-label="Commit types">
+        {COMMIT_TYPES.map(type => {
+          const isVisible = visibleTypes.includes(type);
+          return (
+            <button
+              key={type}
+              className={cn(
+                'flex items-center gap-1.5 rounded-md px-2 py-1 text-xs transition-opacity hover:bg-muted',
+                !isVisible && 'opacity-40 line-through'
+              )}
+              aria-pressed={isVisible}
+              onClick={() => onTypesChange(toggleVisibleType(types, type))}
+            >
+              <span className={cn('h-2.5 w-2.5 rounded-sm', getCommitTypeColor(type))} />
+              {chartConfig[type].label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CommitActivityChart;
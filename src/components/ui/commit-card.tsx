@@ -5,11 +5,14 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Button } from '@/components/ui/button';
+import HighlightedText from '@/components/ui/highlighted-text';
 import { Commit, CommitType } from '@/types';
 import { formatDate } from '@/utils/date-utils';
 import { getCommitTypeColor } from '@/utils/filter-utils';
 import { ExternalLink, GitCommit, Book, Lightbulb, Sparkles, Bug, AlertTriangle, Trophy, Wrench } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getRepoForCommit } from '@/lib/forges';
+import { pickHighlightedText } from '@/lib/search-index';
 
 interface CommitCardProps {
   commit: Commit;
@@ -17,6 +20,8 @@ interface CommitCardProps {
   isExpanded?: boolean;
   onToggleExpand?: () => void;
   id?: string;
+  /** Words a search matched, highlighted in the card */
+  highlights?: string[];
 }
 
 const CommitCard: React.FC<CommitCardProps> = ({
@@ -25,6 +30,7 @@ const CommitCard: React.FC<CommitCardProps> = ({
   isExpanded = false,
   onToggleExpand,
   id,
+  highlights,
 }) => {
   // Handle both property names for backward compatibility
   const analyses = commit.commit_analyses || commit.commit_analises || [];
@@ -40,6 +46,18 @@ const CommitCard: React.FC<CommitCardProps> = ({
     'CHORE': Wrench,
   }[commitType] || Wrench; // Provide a fallback
 
+  // Links and avatars depend on the forge hosting the repository
+  const repo = getRepoForCommit(commit);
+  const avatarUrl = repo?.forge.avatarUrl(repo, commit.author) || undefined;
+  // `author` is a display name rather than a login, so the profile is only linked when known
+  const authorUrl = commit.author_url || undefined;
+  const commitUrl = commit.url || (repo ? repo.forge.commitUrl(repo, commit.sha) : undefined);
+  // While searching, the summary shows the part of the commit that matched
+  const summary = pickHighlightedText(
+    [analysis?.idea || commit.description, analysis?.description, commit.description, commit.message],
+    highlights
+  );
+
   return (
     <Card 
       id={id}
@@ -54,21 +72,23 @@ const CommitCard: React.FC<CommitCardProps> = ({
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-3">
             <Avatar className="h-8 w-8 border">
-              <AvatarImage src={`https://github.com/${commit.author}.png`} alt={commit.author} />
+              <AvatarImage src={avatarUrl} alt={commit.author} />
               <AvatarFallback className="bg-primary/10 text-primary">
                 {commit.author.slice(0, 2).toUpperCase()}
               </AvatarFallback>
             </Avatar>
             <div>
               <p className="text-sm font-medium">
-                <a 
-                  href={commit.author_url} 
-                  target="_blank" 
-                  rel="noopener noreferrer"
-                  className="hover:text-primary transition-colors"
-                >
-                  {commit.author}
-                </a>
+                {authorUrl ? (
+                  <a 
+                    href={authorUrl} 
+                    target="_blank" 
+                    rel="noopener noreferrer"
+                    className="hover:text-primary transition-colors"
+                  >
+                    {commit.author}
+                  </a>
+                ) : commit.author}
               </p>
               <p className="text-xs text-muted-foreground">
                 {formatDate(commit.date, 'MMM d, yyyy')}
@@ -87,11 +107,11 @@ const CommitCard: React.FC<CommitCardProps> = ({
         </div>
         
         <CardTitle className="mt-3 text-lg font-semibold">
-          {analysis?.title || commit.message}
+          <HighlightedText text={analysis?.title || commit.message} words={highlights} />
         </CardTitle>
         
         <CardDescription className="mt-1 line-clamp-2">
-          {analysis?.idea || commit.description}
+          <HighlightedText text={summary} words={highlights} maxLength={160} />
         </CardDescription>
       </CardHeader>
       
@@ -106,7 +126,7 @@ const CommitCard: React.FC<CommitCardProps> = ({
                 Original Commit
               </h4>
               <p className="mt-1 text-sm text-muted-foreground px-6">
-                {commit.message}
+                <HighlightedText text={commit.message} words={highlights} />
               </p>
             </div>
             
@@ -117,7 +137,7 @@ const CommitCard: React.FC<CommitCardProps> = ({
                   Analysis
                 </h4>
                 <p className="mt-1 text-sm text-muted-foreground px-6">
-                  {analysis.description}
+                  <HighlightedText text={analysis.description} words={highlights} />
                 </p>
               </div>
             )}
@@ -129,7 +149,7 @@ const CommitCard: React.FC<CommitCardProps> = ({
                   Core Idea
                 </h4>
                 <p className="mt-1 text-sm text-muted-foreground px-6">
-                  {analysis.idea}
+                  <HighlightedText text={analysis.idea} words={highlights} />
                 </p>
               </div>
             )}
@@ -153,8 +173,8 @@ const CommitCard: React.FC<CommitCardProps> = ({
           className="text-xs"
           asChild
         >
-          <a href={commit.url} target="_blank" rel="noopener noreferrer">
-            View on GitHub
+          <a href={commitUrl} target="_blank" rel="noopener noreferrer">
+            View on {repo?.forge.label || 'Git host'}
             <ExternalLink className="h-3 w-3 ml-1" />
           </a>
         </Button>
@@ -0,0 +1,174 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Commit, CommitType } from '@/types';
+import { formatDate } from '@/utils/date-utils';
+import { getCommitTypeColor } from '@/utils/filter-utils';
+import { buildCommitGraph, GraphEdge } from '@/utils/graph-utils';
+import { getVisibleRowRange } from '@/utils/timeline-utils';
+import { cn } from '@/lib/utils';
+
+interface CommitGraphProps {
+  /** Commits drawn as nodes */
+  commits: Commit[];
+  /** Every loaded commit, so edges can run through commits hidden by filters */
+  allCommits?: Commit[];
+  selectedCommit?: string;
+  onCommitSelect: (commitSha: string) => void;
+  className?: string;
+}
+
+const ROW_HEIGHT = 36;
+const LANE_WIDTH = 16;
+const NODE_SIZE = 12;
+// Colors cycled through by lane, so neighbouring branches are easy to tell apart
+const LANE_COLORS = ['#3B82F6', '#8B5CF6', '#10B981', '#F59E0B', '#EF4444', '#06B6D4', '#EC4899', '#84CC16'];
+
+const laneX = (lane: number) => lane * LANE_WIDTH + LANE_WIDTH / 2;
+const rowY = (row: number) => row * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+/**
+ * SVG path of an edge: out of the child's lane, down its own lane, into the parent's lane
+ */
+const getEdgePath = (edge: GraphEdge): string => {
+  const startX = laneX(edge.fromLane);
+  const startY = rowY(edge.fromRow);
+  const laneXPos = laneX(edge.lane);
+
+  if (edge.toRow === null || edge.toLane === null) {
+    // Parent isn't loaded: a short stub hints that history continues
+    return `M ${startX} ${startY} L ${laneXPos} ${startY + ROW_HEIGHT * 0.75}`;
+  }
+
+  const endX = laneX(edge.toLane);
+  const endY = rowY(edge.toRow);
+  const bend = ROW_HEIGHT / 2;
+  return [
+    `M ${startX} ${startY}`,
+    `C ${startX} ${startY + bend} ${laneXPos} ${startY} ${laneXPos} ${startY + bend}`,
+    `L ${laneXPos} ${endY - bend}`,
+    `C ${laneXPos} ${endY} ${endX} ${endY - bend} ${endX} ${endY}`,
+  ].join(' ');
+};
+
+const CommitGraph: React.FC<CommitGraphProps> = ({
+  commits,
+  allCommits,
+  selectedCommit,
+  onCommitSelect,
+  className,
+}) => {
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [bodyHeight, setBodyHeight] = useState(ROW_HEIGHT * 16);
+  const graph = useMemo(() => buildCommitGraph(commits, allCommits), [commits, allCommits]);
+  const graphWidth = graph.laneCount * LANE_WIDTH + LANE_WIDTH;
+  const visibleRows = getVisibleRowRange(scrollTop, bodyHeight, ROW_HEIGHT, graph.nodes.length, 8);
+  // Edges crossing the rendered rows; the rest are off screen
+  const visibleEdges = useMemo(
+    () => graph.edges.filter(edge =>
+      edge.fromRow < visibleRows.end && (edge.toRow === null ? edge.fromRow + 1 : edge.toRow) >= visibleRows.start
+    ),
+    [graph, visibleRows.start, visibleRows.end]
+  );
+
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+
+    const observer = new ResizeObserver(() => setBodyHeight(body.clientHeight));
+    observer.observe(body);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep a commit selected elsewhere (e.g. on the timeline) in view
+  useEffect(() => {
+    const body = bodyRef.current;
+    const row = graph.nodes.findIndex(node => node.commit.sha === selectedCommit);
+    if (!body || row === -1) return;
+
+    const top = row * ROW_HEIGHT;
+    if (top < body.scrollTop || top + ROW_HEIGHT > body.scrollTop + body.clientHeight) {
+      body.scrollTop = Math.max(0, top - body.clientHeight / 2);
+    }
+  }, [graph, selectedCommit]);
+
+  const getCommitType = (commit: Commit): CommitType => {
+    const analyses = commit.commit_analyses || commit.commit_analises || [];
+    return analyses[0]?.type || 'CHORE';
+  };
+
+  return (
+    <div className={cn('bg-card rounded-lg border shadow-sm overflow-hidden', className)}>
+      <div
+        ref={bodyRef}
+        className="overflow-auto max-h-[70vh]"
+        role="region"
+        aria-label="Commit graph"
+        onScroll={event => setScrollTop(event.currentTarget.scrollTop)}
+      >
+        <div className="relative min-w-fit" style={{ height: graph.nodes.length * ROW_HEIGHT }}>
+          <svg
+            className="absolute top-0 left-0 pointer-events-none"
+            width={graphWidth}
+            height={graph.nodes.length * ROW_HEIGHT}
+            aria-hidden="true"
+          >
+            {visibleEdges.map((edge, index) => (
+              <path
+                key={`${edge.fromRow}-${edge.lane}-${index}`}
+                d={getEdgePath(edge)}
+                fill="none"
+                stroke={LANE_COLORS[edge.lane % LANE_COLORS.length]}
+                strokeWidth={2}
+                strokeDasharray={edge.toRow === null ? '3 3' : undefined}
+              />
+            ))}
+          </svg>
+
+          {graph.nodes.slice(visibleRows.start, visibleRows.end).map(node => {
+            const { commit } = node;
+            const commitType = getCommitType(commit);
+            const analysis = (commit.commit_analyses || commit.commit_analises || [])[0];
+            const isSelected = selectedCommit === commit.sha;
+
+            return (
+              <button
+                key={commit.sha}
+                className={cn(
+                  'absolute inset-x-0 flex items-center gap-3 pr-4 text-left text-sm transition-colors hover:bg-muted/40',
+                  isSelected && 'bg-primary/10'
+                )}
+                style={{ top: node.row * ROW_HEIGHT, height: ROW_HEIGHT, paddingLeft: graphWidth }}
+                aria-current={isSelected || undefined}
+                aria-label={`${commitType.toLowerCase()} commit by ${commit.author} on ${formatDate(commit.date)}: ${analysis?.title || commit.message}${node.isMerge ? ', merge' : ''}`}
+                onClick={() => onCommitSelect(commit.sha)}
+              >
+                <span
+                  className={cn(
+                    'absolute rounded-full border-2 border-background',
+                    getCommitTypeColor(commitType),
+                    node.isMerge && 'ring-2 ring-foreground/40',
+                    isSelected && 'ring-2 ring-primary ring-offset-1'
+                  )}
+                  style={{
+                    left: laneX(node.lane) - NODE_SIZE / 2,
+                    top: ROW_HEIGHT / 2 - NODE_SIZE / 2,
+                    width: NODE_SIZE,
+                    height: NODE_SIZE,
+                  }}
+                />
+                <span className="truncate flex-grow font-medium">{analysis?.title || commit.message}</span>
+                <Badge className={cn('hidden sm:inline-flex', getCommitTypeColor(commitType))}>{commitType}</Badge>
+                <span className="hidden md:inline text-xs text-muted-foreground whitespace-nowrap">{commit.author}</span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">{formatDate(commit.date)}</span>
+                <code className="hidden lg:inline text-xs text-muted-foreground">{commit.sha.substring(0, 7)}</code>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommitGraph;
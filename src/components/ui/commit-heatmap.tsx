@@ -0,0 +1,126 @@
+import React, { useMemo } from 'react';
+import { format } from 'date-fns';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { CalendarColorBy, Commit, CommitType } from '@/types';
+import { getCommitTypeColor } from '@/utils/filter-utils';
+import { countCommitsByDay, getCalendarWeeks, getCommitYears, getDayKey, getHeatmapLevel } from '@/utils/heatmap-utils';
+import { cn } from '@/lib/utils';
+
+interface CommitHeatmapProps {
+  commits: Commit[];
+  colorBy: CalendarColorBy;
+  onColorByChange: (colorBy: CalendarColorBy) => void;
+  /** Called with the day (local midnight) whose cell was clicked */
+  onDaySelect: (day: Date) => void;
+  className?: string;
+}
+
+const COMMIT_TYPES: CommitType[] = ['FEATURE', 'WARNING', 'MILESTONE', 'BUG', 'CHORE'];
+// Opacity of each intensity level above zero
+const LEVEL_OPACITY = ['', 'opacity-25', 'opacity-50', 'opacity-75', 'opacity-100'];
+const WEEKDAY_LABELS = ['', 'Mon', '', 'Wed', '', 'Fri', ''];
+
+const CommitHeatmap: React.FC<CommitHeatmapProps> = ({
+  commits,
+  colorBy,
+  onColorByChange,
+  onDaySelect,
+  className,
+}) => {
+  const counts = useMemo(() => countCommitsByDay(commits, colorBy), [commits, colorBy]);
+  const maxCount = useMemo(() => Math.max(0, ...counts.values()), [counts]);
+  const years = useMemo(() => getCommitYears(commits), [commits]);
+  const fillColor = colorBy === 'total' ? 'bg-primary' : getCommitTypeColor(colorBy);
+  const countLabel = colorBy === 'total' ? 'commit' : `${colorBy.toLowerCase()} commit`;
+
+  const getCellClassName = (count: number) => {
+    const level = getHeatmapLevel(count, maxCount);
+    return level === 0 ? 'bg-muted' : cn(fillColor, LEVEL_OPACITY[level]);
+  };
+
+  return (
+    <div className={cn('bg-card rounded-lg border shadow-sm p-4', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-sm font-medium">Commit activity</h3>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={colorBy}
+          onValueChange={value => value && onColorByChange(value as CalendarColorBy)}
+          aria-label="Color days by"
+        >
+          <ToggleGroupItem value="total" className="text-xs">All</ToggleGroupItem>
+          {COMMIT_TYPES.map(type => (
+            <ToggleGroupItem key={type} value={type} className="text-xs">
+              <span className={cn('h-2 w-2 mr-1 rounded-full', getCommitTypeColor(type))} />
+              {type.charAt(0)}{type.slice(1).toLowerCase()}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="space-y-6 overflow-x-auto">
+        {years.map(year => {
+          const weeks = getCalendarWeeks(year);
+          const yearTotal = weeks.flat().reduce((sum, day) => sum + (day ? counts.get(getDayKey(day)) || 0 : 0), 0);
+
+          return (
+            <div key={year}>
+              <p className="text-xs text-muted-foreground mb-1">
+                {year} · {yearTotal} {countLabel}{yearTotal === 1 ? '' : 's'}
+              </p>
+              <div className="flex gap-[3px]">
+                <div className="flex flex-col gap-[3px] mr-1 pt-4">
+                  {WEEKDAY_LABELS.map((label, index) => (
+                    <div key={index} className="h-3 text-[10px] leading-3 text-muted-foreground">{label}</div>
+                  ))}
+                </div>
+                {weeks.map((week, weekIndex) => {
+                  // Label a column with its month when the month starts in that week
+                  const monthStart = week.find(day => day?.getDate() === 1) || (weekIndex === 0 ? week.find(Boolean) : null);
+
+                  return (
+                    <div key={weekIndex} className="flex flex-col gap-[3px]">
+                      <div className="h-4 text-[10px] leading-3 text-muted-foreground whitespace-nowrap">
+                        {monthStart ? format(monthStart, 'MMM') : ''}
+                      </div>
+                      {week.map((day, dayIndex) => {
+                        if (!day) return <div key={dayIndex} className="h-3 w-3" />;
+                        const count = counts.get(getDayKey(day)) || 0;
+                        const label = `${count} ${countLabel}${count === 1 ? '' : 's'} on ${format(day, 'MMM d, yyyy')}`;
+
+                        return (
+                          <button
+                            key={dayIndex}
+                            className={cn(
+                              'h-3 w-3 rounded-sm transition-transform hover:scale-125 hover:ring-1 hover:ring-foreground/40',
+                              getCellClassName(count)
+                            )}
+                            title={label}
+                            aria-label={label}
+                            disabled={count === 0}
+                            onClick={() => onDaySelect(day)}
+                          />
+                        );
+                      })}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-end gap-1 mt-4 text-xs text-muted-foreground">
+        Less
+        {LEVEL_OPACITY.map((_, level) => (
+          <div key={level} className={cn('h-3 w-3 rounded-sm', level === 0 ? 'bg-muted' : cn(fillColor, LEVEL_OPACITY[level]))} />
+        ))}
+        More
+      </div>
+    </div>
+  );
+};
+
+export default CommitHeatmap;
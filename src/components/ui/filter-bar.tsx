@@ -1,6 +1,7 @@
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -12,37 +13,78 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
-import { Input } from '@/components/ui/input';
+import SearchQueryInput from '@/components/ui/search-query-input';
+import SavedViewsMenu, { SavedViewsMenuProps } from '@/components/ui/saved-views-menu';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
-import { CheckIcon, ClockIcon, FilterIcon, SearchIcon, Users, XIcon } from 'lucide-react';
+import { CheckIcon, ClockIcon, FilterIcon, GitBranch, Users, XIcon } from 'lucide-react';
 import { Commit, CommitType, TimelineFilters, TimeScale, GroupBy } from '@/types';
-import { getUniqueAuthors, getCommitTypeColor } from '@/utils/filter-utils';
+import { getUniqueAuthors, getCommitTypeColor, sortAuthorsByCount } from '@/utils/filter-utils';
+import type { CommitFacetCounts } from '@/lib/data-source';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 
 interface FilterBarProps {
   commits: Commit[];
+  /** Every author of the repository, when more are known than appear in `commits` */
+  availableAuthors?: string[];
   filters: TimelineFilters;
   onFilterChange: (filters: TimelineFilters) => void;
+  /** Commits each type and author would match; without them no counts are shown */
+  facets?: CommitFacetCounts;
   timeScale: TimeScale;
   onTimeScaleChange: (scale: TimeScale) => void;
   groupBy: GroupBy;
   onGroupByChange: (groupBy: GroupBy) => void;
+  /** Branches of the repository; the branch selector is hidden when empty */
+  branches?: string[];
+  /** Selected branch, or null for commits from every branch */
+  branch?: string | null;
+  onBranchChange?: (branch: string | null) => void;
+  /** Branch overlaid on the selected one */
+  compareBranch?: string | null;
+  onCompareBranchChange?: (branch: string | null) => void;
+  /** Saved views of the repository; the views menu is hidden without them */
+  savedViews?: SavedViewsMenuProps;
   className?: string;
 }
 
+// Longer author lists are cut off; the search box in the menu narrows them down
+const MAX_LISTED_AUTHORS = 100;
+
+const FacetCount: React.FC<{ count?: number }> = ({ count }) =>
+  count === undefined ? null : (
+    <span className="text-xs text-muted-foreground tabular-nums">{count}</span>
+  );
+
 const FilterBar: React.FC<FilterBarProps> = ({
   commits,
+  availableAuthors,
   filters,
   onFilterChange,
+  facets,
   timeScale,
   onTimeScaleChange,
   groupBy,
   onGroupByChange,
+  branches = [],
+  branch = null,
+  onBranchChange,
+  compareBranch = null,
+  onCompareBranchChange,
+  savedViews,
   className,
 }) => {
-  const authors = getUniqueAuthors(commits);
+  const [authorSearch, setAuthorSearch] = useState('');
+  // The most active authors come first once counts are known
+  const authors = useMemo(() => {
+    const known = availableAuthors || getUniqueAuthors(commits);
+    return facets ? sortAuthorsByCount(known, facets.authors) : known;
+  }, [availableAuthors, commits, facets]);
+  const matchingAuthors = authorSearch.trim()
+    ? authors.filter(author => author.toLowerCase().includes(authorSearch.trim().toLowerCase()))
+    : authors;
+  const listedAuthors = matchingAuthors.slice(0, MAX_LISTED_AUTHORS);
   const commitTypes: CommitType[] = ['FEATURE', 'WARNING', 'MILESTONE', 'BUG', 'CHORE'];
   
   const handleTypeToggle = (type: CommitType) => {
@@ -73,13 +115,6 @@ const FilterBar: React.FC<FilterBarProps> = ({
     }
   };
   
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    onFilterChange({
-      ...filters,
-      searchTerm: e.target.value
-    });
-  };
-  
   const handleClearFilters = () => {
     onFilterChange({
       types: [],
@@ -100,16 +135,65 @@ const FilterBar: React.FC<FilterBarProps> = ({
       'flex flex-wrap items-center gap-2 pb-4 animate-slide-down',
       className
     )}>
-      {/* Search */}
-      <div className="relative flex-grow max-w-xs">
-        <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          placeholder="Search commits..."
-          value={filters.searchTerm}
-          onChange={handleSearchChange}
-          className="pl-9 bg-background border-input"
-        />
-      </div>
+      {/* Search query, e.g. `type:bug author:alice -chore` */}
+      <SearchQueryInput
+        filters={filters}
+        onFilterChange={onFilterChange}
+        authors={authors}
+        className="flex-grow max-w-md"
+      />
+      
+      {/* Saved views */}
+      {savedViews && <SavedViewsMenu {...savedViews} />}
+      
+      {/* Branch */}
+      {branches.length > 0 && onBranchChange && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="bg-background max-w-xs">
+              <GitBranch className="h-4 w-4 mr-2" />
+              <span className="truncate">
+                {branch || 'All branches'}
+                {branch && compareBranch && ` vs ${compareBranch}`}
+              </span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent className="w-56 max-h-80 overflow-y-auto">
+            <DropdownMenuLabel>Branch</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuGroup>
+              <DropdownMenuItem onSelect={() => onBranchChange(null)} className="flex justify-between">
+                <span>All branches</span>
+                {!branch && <CheckIcon className="h-4 w-4" />}
+              </DropdownMenuItem>
+              {branches.map(name => (
+                <DropdownMenuItem key={name} onSelect={() => onBranchChange(name)} className="flex justify-between">
+                  <span className="truncate">{name}</span>
+                  {branch === name && <CheckIcon className="h-4 w-4" />}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuGroup>
+            {branch && onCompareBranchChange && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Compare with</DropdownMenuLabel>
+                <DropdownMenuGroup>
+                  <DropdownMenuItem onSelect={() => onCompareBranchChange(null)} className="flex justify-between">
+                    <span>None</span>
+                    {!compareBranch && <CheckIcon className="h-4 w-4" />}
+                  </DropdownMenuItem>
+                  {branches.filter(name => name !== branch).map(name => (
+                    <DropdownMenuItem key={name} onSelect={() => onCompareBranchChange(name)} className="flex justify-between">
+                      <span className="truncate">{name}</span>
+                      {compareBranch === name && <CheckIcon className="h-4 w-4" />}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuGroup>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
       
       {/* Type Filter */}
       <DropdownMenu>
@@ -142,7 +226,10 @@ const FilterBar: React.FC<FilterBarProps> = ({
                       {type}
                     </Badge>
                   </div>
-                  {filters.types.includes(type) && <CheckIcon className="h-4 w-4" />}
+                  <div className="flex items-center gap-2">
+                    <FacetCount count={facets?.types[type]} />
+                    {filters.types.includes(type) && <CheckIcon className="h-4 w-4" />}
+                  </div>
                 </div>
               </DropdownMenuItem>
             ))}
@@ -151,7 +238,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
       </DropdownMenu>
 
       {/* Author Filter */}
-      <DropdownMenu>
+      <DropdownMenu onOpenChange={open => !open && setAuthorSearch('')}>
         <DropdownMenuTrigger asChild>
           <Button variant="outline" className="bg-background">
             <Users className="h-4 w-4 mr-2" />
@@ -163,21 +250,45 @@ const FilterBar: React.FC<FilterBarProps> = ({
             )}
           </Button>
         </DropdownMenuTrigger>
-        <DropdownMenuContent className="w-56 max-h-80 overflow-y-auto">
+        <DropdownMenuContent className="w-64">
           <DropdownMenuLabel>Authors</DropdownMenuLabel>
+          <div className="px-1 pb-1">
+            <Input
+              placeholder="Search authors..."
+              aria-label="Search authors"
+              value={authorSearch}
+              onChange={event => setAuthorSearch(event.target.value)}
+              // Typing shouldn't trigger the menu's typeahead; arrows and Escape still reach it
+              onKeyDown={event => {
+                if (!['ArrowDown', 'ArrowUp', 'Escape'].includes(event.key)) event.stopPropagation();
+              }}
+              className="h-8"
+            />
+          </div>
           <DropdownMenuSeparator />
-          <DropdownMenuGroup>
-            {authors.map(author => (
+          <DropdownMenuGroup className="max-h-72 overflow-y-auto">
+            {listedAuthors.length === 0 && (
+              <DropdownMenuItem disabled>No matching authors</DropdownMenuItem>
+            )}
+            {listedAuthors.map(author => (
               <DropdownMenuItem key={author} onSelect={(e) => {
                 e.preventDefault();
                 handleAuthorToggle(author);
               }}>
-                <div className="flex items-center justify-between w-full">
-                  <span>{author}</span>
-                  {filters.authors.includes(author) && <CheckIcon className="h-4 w-4" />}
+                <div className="flex items-center justify-between gap-2 w-full">
+                  <span className="truncate">{author}</span>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <FacetCount count={facets ? facets.authors[author] || 0 : undefined} />
+                    {filters.authors.includes(author) && <CheckIcon className="h-4 w-4" />}
+                  </div>
                 </div>
               </DropdownMenuItem>
             ))}
+            {matchingAuthors.length > listedAuthors.length && (
+              <p className="px-2 py-1.5 text-xs text-muted-foreground">
+                {matchingAuthors.length - listedAuthors.length} more, search to narrow down
+              </p>
+            )}
           </DropdownMenuGroup>
         </DropdownMenuContent>
       </DropdownMenu>
@@ -279,7 +390,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
           <DropdownMenuLabel>Group By</DropdownMenuLabel>
           <DropdownMenuSeparator />
           <DropdownMenuGroup>
-            {(['type', 'author', 'date'] as GroupBy[]).map((group) => (
+            {(['type', 'author', 'date', 'path'] as GroupBy[]).map((group) => (
               <DropdownMenuItem 
                 key={group}
                 onSelect={() => onGroupByChange(group)}
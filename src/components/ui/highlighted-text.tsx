@@ -0,0 +1,27 @@
+import React, { useMemo } from 'react';
+import { getHighlightedParts } from '@/lib/search-index';
+
+interface HighlightedTextProps {
+  text: string;
+  /** Lowercase words to highlight, e.g. the words a search matched */
+  words?: string[];
+  /** Cuts text with a highlight to a snippet of about this many characters around it */
+  maxLength?: number;
+  className?: string;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, words, maxLength, className }) => {
+  const parts = useMemo(() => getHighlightedParts(text, new Set(words), maxLength), [text, words, maxLength]);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) => part.highlight ? (
+        <mark key={index} className="rounded-sm bg-commit-warning/40 text-inherit">{part.text}</mark>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      ))}
+    </span>
+  );
+};
+
+export default HighlightedText;
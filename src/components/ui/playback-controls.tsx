@@ -0,0 +1,138 @@
+import React from 'react';
+import { Pause, Play, Square, Tag, Trophy } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { CommitType } from '@/types';
+import { formatDate } from '@/utils/date-utils';
+import { getCommitTypeColor } from '@/utils/filter-utils';
+import { PlaybackStop, PlaybackTally } from '@/utils/playback-utils';
+import { cn } from '@/lib/utils';
+
+interface PlaybackControlsProps {
+  /** Current playback time (ms), or null when playback is off */
+  cursor: number | null;
+  isPlaying: boolean;
+  speed: number;
+  speeds: number[];
+  range: { start: number; end: number };
+  stops: PlaybackStop[];
+  pausedAt: PlaybackStop | null;
+  tally: PlaybackTally;
+  onPlay: () => void;
+  onPause: () => void;
+  onStop: () => void;
+  onSeek: (time: number) => void;
+  onSpeedChange: (speed: number) => void;
+  className?: string;
+}
+
+const COMMIT_TYPES: CommitType[] = ['FEATURE', 'WARNING', 'MILESTONE', 'BUG', 'CHORE'];
+// Scrubber resolution
+const SCRUBBER_STEPS = 1000;
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  cursor,
+  isPlaying,
+  speed,
+  speeds,
+  range,
+  stops,
+  pausedAt,
+  tally,
+  onPlay,
+  onPause,
+  onStop,
+  onSeek,
+  onSpeedChange,
+  className,
+}) => {
+  const span = Math.max(1, range.end - range.start);
+  const current = cursor ?? range.start;
+  const toStep = (time: number) => Math.round(((time - range.start) / span) * SCRUBBER_STEPS);
+
+  return (
+    <div className={cn('bg-card rounded-lg border shadow-sm p-3 space-y-3', className)}>
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-1">
+          <Button
+            size="icon"
+            className="h-8 w-8"
+            onClick={isPlaying ? onPause : onPlay}
+            aria-label={isPlaying ? 'Pause playback' : 'Play history'}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            onClick={onStop}
+            disabled={cursor === null}
+            aria-label="Stop playback and show all commits"
+          >
+            <Square className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+
+        <span className="text-sm font-medium tabular-nums w-28">
+          {cursor === null ? 'Replay history' : formatDate(new Date(current).toISOString())}
+        </span>
+
+        <div className="relative flex-grow min-w-48">
+          {/* Milestones and tags playback pauses on */}
+          {stops.map(stop => (
+            <div
+              key={`${stop.kind}-${stop.time}-${stop.label}`}
+              className={cn(
+                'absolute -top-1.5 h-1.5 w-0.5 -translate-x-1/2',
+                stop.kind === 'tag' ? 'bg-amber-500' : 'bg-commit-milestone'
+              )}
+              style={{ left: `${((stop.time - range.start) / span) * 100}%` }}
+              title={`${stop.kind === 'tag' ? 'Tag' : 'Milestone'}: ${stop.label}`}
+            />
+          ))}
+          <Slider
+            min={0}
+            max={SCRUBBER_STEPS}
+            step={1}
+            value={[toStep(current)]}
+            onValueChange={([step]) => onSeek(range.start + (step / SCRUBBER_STEPS) * span)}
+            aria-label="Playback position"
+          />
+        </div>
+
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={String(speed)}
+          onValueChange={value => value && onSpeedChange(Number(value))}
+          aria-label="Playback speed"
+        >
+          {speeds.map(option => (
+            <ToggleGroupItem key={option} value={String(option)} className="text-xs px-2">
+              {option}×
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {COMMIT_TYPES.map(type => (
+          <Badge key={type} className={cn('tabular-nums', getCommitTypeColor(type))}>
+            {type} {tally[type]}
+          </Badge>
+        ))}
+        {pausedAt && (
+          <span className="flex items-center gap-1 ml-auto text-muted-foreground" role="status">
+            {pausedAt.kind === 'tag' ? <Tag className="h-3 w-3 text-amber-500" /> : <Trophy className="h-3 w-3 text-commit-milestone" />}
+            Paused at {pausedAt.kind === 'tag' ? 'tag' : 'milestone'} <span className="font-medium text-foreground">{pausedAt.label}</span>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackControls;
@@ -5,7 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Search, GitBranch, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { extractRepoNameFromUrl, checkRepoExists } from '@/lib/supabase';
+import { parseRepoUrl } from '@/lib/forges';
+import { useDataSource } from '@/hooks/use-data-source';
 
 interface RepositoryInputProps {
   onSubmit: (url: string, repoName: string, repoExists?: boolean) => Promise<void>;
@@ -20,12 +21,9 @@ const RepositoryInput: React.FC<RepositoryInputProps> = ({
 }) => {
   const [url, setUrl] = useState('');
   const [checkingRepo, setCheckingRepo] = useState(false);
+  const dataSource = useDataSource();
   
-  const validateUrl = (url: string): boolean => {
-    // Basic validation to check if it's a GitHub repository URL
-    const githubRegex = /^https?:\/\/(www\.)?github\.com\/[\w-]+\/[\w.-]+\/?.*$/;
-    return githubRegex.test(url);
-  };
+  const detectedRepo = url.trim() ? parseRepoUrl(url) : null;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -35,23 +33,19 @@ const RepositoryInput: React.FC<RepositoryInputProps> = ({
       return;
     }
     
-    if (!validateUrl(url)) {
-      toast.error('Please enter a valid GitHub repository URL');
+    // Accepts HTTPS and SSH URLs from any forge in the registry
+    if (!detectedRepo) {
+      toast.error('Please enter a valid Git repository URL');
       return;
     }
     
-    const repoName = extractRepoNameFromUrl(url);
-    console.log('Extracted repo name:', repoName);
-    
-    if (!repoName) {
-      toast.error('Could not extract repository name from URL');
-      return;
-    }
+    const repoName = detectedRepo.repoName;
+    console.log('Extracted repo name:', repoName, 'on', detectedRepo.forge.label);
     
     try {
-      // Check if repo exists in Supabase before submitting
+      // Check if repo exists in the data source before submitting
       setCheckingRepo(true);
-      const exists = await checkRepoExists(repoName);
+      const exists = await dataSource.checkRepoExists(repoName);
       setCheckingRepo(false);
       
       console.log('Repository exists:', exists);
@@ -82,6 +76,11 @@ const RepositoryInput: React.FC<RepositoryInputProps> = ({
             placeholder="https://github.com/username/repository"
             className="border-0 bg-transparent shadow-none text-base py-6 focus-visible:ring-0 focus-visible:ring-offset-0"
           />
+          {detectedRepo && (
+            <span className="text-xs text-muted-foreground bg-secondary rounded-full px-2 py-1 ml-2 whitespace-nowrap">
+              {detectedRepo.forge.label}
+            </span>
+          )}
         </div>
         <Button
           type="submit"
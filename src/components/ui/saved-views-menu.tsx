@@ -0,0 +1,192 @@
+import React, { useRef, useState } from 'react';
+import { Bookmark, CheckIcon, Download, Pencil, Plus, Star, StarOff, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { SavedView } from '@/types';
+import { cn } from '@/lib/utils';
+
+export interface SavedViewsMenuProps {
+  views: SavedView[];
+  /** View whose options match the current filters, scale and grouping */
+  activeViewId?: string;
+  onSelect: (view: SavedView) => void;
+  /** Saves the current options under a name */
+  onSave: (name: string) => void;
+  onRename: (viewId: string, name: string) => void;
+  onDelete: (viewId: string) => void;
+  /** Makes a view the default, or clears the default with null */
+  onDefaultChange: (viewId: string | null) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  className?: string;
+}
+
+/**
+ * Dropdown listing the saved views of a repository. Rename, default and delete
+ * act on the active view, so a view is picked first and then managed.
+ */
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({
+  views,
+  activeViewId,
+  onSelect,
+  onSave,
+  onRename,
+  onDelete,
+  onDefaultChange,
+  onImport,
+  onExport,
+  className,
+}) => {
+  // Open name dialog: renames `viewId`, or saves a new view when it is null
+  const [nameDialog, setNameDialog] = useState<{ viewId: string | null } | null>(null);
+  const [name, setName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const activeView = views.find(view => view.id === activeViewId);
+
+  const openNameDialog = (view: SavedView | null) => {
+    setName(view?.name || '');
+    setNameDialog({ viewId: view?.id || null });
+  };
+
+  const handleNameSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!nameDialog || !name.trim()) return;
+    if (nameDialog.viewId) {
+      onRename(nameDialog.viewId, name);
+    } else {
+      onSave(name);
+    }
+    setNameDialog(null);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow importing the same file again
+    event.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <>
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className={cn('bg-background max-w-xs', className)}>
+            <Bookmark className="h-4 w-4 mr-2" />
+            <span className="truncate">{activeView ? activeView.name : 'Views'}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-64">
+          <DropdownMenuLabel>Saved Views</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuGroup className="max-h-60 overflow-y-auto">
+            {views.length === 0 ? (
+              <DropdownMenuItem disabled>No saved views yet</DropdownMenuItem>
+            ) : views.map(view => (
+              <DropdownMenuItem key={view.id} onSelect={() => onSelect(view)} className="flex justify-between gap-2">
+                <span className="truncate">{view.name}</span>
+                <span className="flex items-center gap-1 shrink-0">
+                  {view.is_default && <Star className="h-3 w-3 fill-current text-amber-500" aria-label="Default view" />}
+                  {view.id === activeViewId && <CheckIcon className="h-4 w-4" />}
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuGroup>
+            <DropdownMenuItem onSelect={() => openNameDialog(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Save current view...
+            </DropdownMenuItem>
+            {activeView && (
+              <>
+                <DropdownMenuItem onSelect={() => openNameDialog(activeView)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Rename "{activeView.name}"...
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => onDefaultChange(activeView.is_default ? null : activeView.id)}>
+                  {activeView.is_default ? <StarOff className="h-4 w-4 mr-2" /> : <Star className="h-4 w-4 mr-2" />}
+                  {activeView.is_default ? 'Remove as default' : 'Set as default'}
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onSelect={() => onDelete(activeView.id)}
+                  className="text-destructive focus:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete "{activeView.name}"
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuGroup>
+            <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import from JSON...
+            </DropdownMenuItem>
+            <DropdownMenuItem disabled={views.length === 0} onSelect={onExport}>
+              <Download className="h-4 w-4 mr-2" />
+              Export as JSON
+            </DropdownMenuItem>
+          </DropdownMenuGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+
+      <Dialog open={!!nameDialog} onOpenChange={open => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleNameSubmit} className="grid gap-4">
+            <DialogHeader>
+              <DialogTitle>{nameDialog?.viewId ? 'Rename view' : 'Save current view'}</DialogTitle>
+              <DialogDescription>
+                {nameDialog?.viewId
+                  ? 'Give the saved view a new name.'
+                  : 'Saves the filters, time scale and grouping. Saving under an existing name replaces that view.'}
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              autoFocus
+              aria-label="View name"
+              placeholder="e.g. Bugs and warnings this sprint"
+              value={name}
+              onChange={event => setName(event.target.value)}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setNameDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SavedViewsMenu;
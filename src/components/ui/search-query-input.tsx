@@ -0,0 +1,220 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { SearchIcon } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { TimelineFilters } from '@/types';
+import {
+  formatSearchFilters,
+  getSearchCompletions,
+  parseSearchFilters,
+  SearchToken,
+  tokenizeSearchQuery,
+} from '@/lib/search-query';
+import { cn } from '@/lib/utils';
+
+interface SearchQueryInputProps {
+  filters: TimelineFilters;
+  onFilterChange: (filters: TimelineFilters) => void;
+  /** Authors offered by autocomplete */
+  authors: string[];
+  className?: string;
+}
+
+// Typing settles before the query is applied, so each keystroke doesn't refetch commits
+const APPLY_DELAY_MS = 300;
+
+const TOKEN_CLASSES: Record<SearchToken['kind'], string> = {
+  field: 'text-primary font-medium',
+  value: 'text-commit-feature',
+  text: 'text-foreground',
+  phrase: 'text-commit-milestone',
+  negation: 'text-commit-bug font-medium',
+  or: 'text-commit-warning font-medium',
+  open: 'text-muted-foreground',
+  close: 'text-muted-foreground',
+};
+
+/**
+ * Renders a query with each token colored by kind, underlining values their field rejects
+ */
+const renderHighlightedQuery = (query: string) => {
+  const parts: React.ReactNode[] = [];
+  let index = 0;
+  tokenizeSearchQuery(query).forEach(token => {
+    if (token.start > index) parts.push(query.slice(index, token.start));
+    parts.push(
+      <span
+        key={`${token.start}-${token.kind}`}
+        className={cn(TOKEN_CLASSES[token.kind], token.invalid && 'text-destructive underline decoration-wavy')}
+      >
+        {token.text}
+      </span>
+    );
+    index = token.end;
+  });
+  if (index < query.length) parts.push(query.slice(index));
+  return parts;
+};
+
+/**
+ * Search box for the query language in `@/lib/search-query`, with syntax
+ * highlighting and autocomplete for fields, types and authors. The query is
+ * kept in sync with `filters` both ways.
+ */
+const SearchQueryInput: React.FC<SearchQueryInputProps> = ({
+  filters,
+  onFilterChange,
+  authors,
+  className,
+}) => {
+  const [query, setQuery] = useState(() => formatSearchFilters(filters));
+  const [cursor, setCursor] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  // Filters this input produced, to tell them apart from changes made elsewhere
+  const appliedFiltersRef = useRef<TimelineFilters>(filters);
+  const listId = useId();
+  const { from, to, completions } = useMemo(
+    () => getSearchCompletions(query, cursor, authors),
+    [query, cursor, authors]
+  );
+  const showCompletions = isOpen && completions.length > 0;
+
+  // Filters changed from a menu, chart or calendar: show them as a query
+  useEffect(() => {
+    if (filters === appliedFiltersRef.current) return;
+    appliedFiltersRef.current = filters;
+    setQuery(formatSearchFilters(filters));
+  }, [filters]);
+
+  const applyQuery = (value: string) => {
+    const nextFilters = parseSearchFilters(value, authors);
+    if (formatSearchFilters(nextFilters) === formatSearchFilters(filters)) return;
+    appliedFiltersRef.current = nextFilters;
+    onFilterChange(nextFilters);
+  };
+  // Only typing schedules an update, so the timer reads the latest filters through a ref
+  const applyQueryRef = useRef(applyQuery);
+  applyQueryRef.current = applyQuery;
+
+  useEffect(() => {
+    const timeout = setTimeout(() => applyQueryRef.current(query), APPLY_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  // The highlighted copy scrolls with the input text
+  const syncScroll = () => {
+    if (inputRef.current && highlightRef.current) {
+      highlightRef.current.scrollLeft = inputRef.current.scrollLeft;
+    }
+  };
+
+  const updateCursor = () => {
+    setCursor(inputRef.current?.selectionStart ?? 0);
+    syncScroll();
+  };
+
+  const acceptCompletion = (index: number) => {
+    const completion = completions[index];
+    if (!completion) return;
+
+    // Values end the term; field names are followed by their value
+    const suffix = completion.value.endsWith(':') || /^\s/.test(query.slice(to)) ? '' : ' ';
+    const nextQuery = query.slice(0, from) + completion.value + suffix + query.slice(to);
+    const nextCursor = from + completion.value.length + suffix.length;
+    setQuery(nextQuery);
+    setCursor(nextCursor);
+    setActiveIndex(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor);
+      syncScroll();
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (showCompletions && (event.key === 'ArrowDown' || event.key === 'ArrowUp')) {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + step + completions.length) % completions.length);
+    } else if (showCompletions && (event.key === 'Enter' || event.key === 'Tab')) {
+      event.preventDefault();
+      acceptCompletion(activeIndex);
+    } else if (event.key === 'Enter') {
+      applyQuery(query);
+    } else if (event.key === 'Escape' && showCompletions) {
+      event.preventDefault();
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className={cn('relative', className)}>
+      <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        role="combobox"
+        aria-label="Search commits"
+        aria-autocomplete="list"
+        aria-expanded={showCompletions}
+        aria-controls={listId}
+        aria-activedescendant={showCompletions ? `${listId}-${activeIndex}` : undefined}
+        placeholder='Search, e.g. type:bug author:alice -"wip"'
+        spellCheck={false}
+        autoComplete="off"
+        value={query}
+        onChange={event => {
+          setQuery(event.target.value);
+          setIsOpen(true);
+          setActiveIndex(0);
+          updateCursor();
+        }}
+        onSelect={updateCursor}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        className="pl-9 bg-background border-input text-transparent caret-foreground"
+      />
+      <div
+        ref={highlightRef}
+        className="absolute inset-0 flex items-center overflow-hidden whitespace-pre border border-transparent pl-9 pr-3 text-base md:text-sm pointer-events-none"
+        aria-hidden="true"
+      >
+        {renderHighlightedQuery(query)}
+      </div>
+
+      {showCompletions && (
+        <ul
+          id={listId}
+          role="listbox"
+          aria-label="Search suggestions"
+          className="absolute z-50 left-0 top-full mt-1 w-full min-w-56 max-h-72 overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+        >
+          {completions.map((completion, index) => (
+            <li
+              key={completion.value}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={cn(
+                'flex items-baseline justify-between gap-3 rounded-sm px-2 py-1.5 text-sm cursor-pointer',
+                index === activeIndex && 'bg-accent text-accent-foreground'
+              )}
+              // Keep focus in the input
+              onMouseDown={event => event.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => acceptCompletion(index)}
+            >
+              <span className="font-mono truncate">{completion.label}</span>
+              {completion.description && (
+                <span className="text-xs text-muted-foreground truncate">{completion.description}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchQueryInput;
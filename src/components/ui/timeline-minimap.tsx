@@ -0,0 +1,141 @@
+import React, { useMemo, useRef } from 'react';
+import { Commit, CommitType, Tag, TimelineViewport, TimeScale } from '@/types';
+import { formatDate, getFittedViewport } from '@/utils/date-utils';
+import { getCommitTypeColor } from '@/utils/filter-utils';
+import { getCommitDensity } from '@/utils/timeline-utils';
+import { cn } from '@/lib/utils';
+
+interface TimelineMinimapProps {
+  /** The commits shown on the timeline; the minimap always spans all of them */
+  commits: Commit[];
+  timeScale: TimeScale;
+  /** Visible window of the timeline; null when it is zoomed to fit */
+  viewport: TimelineViewport | null;
+  onViewportChange: (viewport: TimelineViewport | null) => void;
+  /** Tags drawn as ticks along the top edge */
+  tags?: Tag[];
+  className?: string;
+}
+
+// Number of density columns across the full history
+const BIN_COUNT = 120;
+// Stacking order of the density bars, bottom first
+const TYPE_ORDER: CommitType[] = ['MILESTONE', 'FEATURE', 'BUG', 'WARNING', 'CHORE'];
+
+const TimelineMinimap: React.FC<TimelineMinimapProps> = ({
+  commits,
+  timeScale,
+  viewport,
+  onViewportChange,
+  tags = [],
+  className,
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; viewport: TimelineViewport } | null>(null);
+  const fullRange = useMemo(() => getFittedViewport(commits, timeScale), [commits, timeScale]);
+  const fullSpan = Math.max(1, fullRange.end - fullRange.start);
+  const bins = useMemo(() => getCommitDensity(commits, fullRange, BIN_COUNT), [commits, fullRange]);
+  const maxBinCount = Math.max(1, ...bins.map(bin => TYPE_ORDER.reduce((sum, type) => sum + bin[type], 0)));
+  const activeViewport = viewport || fullRange;
+
+  const getPosition = (time: number) => ((time - fullRange.start) / fullSpan) * 100;
+  const clampPercent = (value: number) => Math.min(100, Math.max(0, value));
+
+  const milestones = useMemo(
+    () => commits.filter(commit =>
+      (commit.commit_analyses || commit.commit_analises || [])[0]?.type === 'MILESTONE'
+    ),
+    [commits]
+  );
+
+  const windowLeft = clampPercent(getPosition(activeViewport.start));
+  const windowRight = clampPercent(getPosition(activeViewport.end));
+
+  // Pressing outside the window centres it there; dragging then moves it
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect) return;
+
+    let next = activeViewport;
+    const pressedTime = fullRange.start + ((event.clientX - rect.left) / rect.width) * fullSpan;
+    if (pressedTime < activeViewport.start || pressedTime > activeViewport.end) {
+      const halfSpan = (activeViewport.end - activeViewport.start) / 2;
+      next = { start: pressedTime - halfSpan, end: pressedTime + halfSpan };
+      onViewportChange(next);
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, viewport: next };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!drag || !rect) return;
+
+    const offset = ((event.clientX - drag.x) / rect.width) * fullSpan;
+    onViewportChange({ start: drag.viewport.start + offset, end: drag.viewport.end + offset });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className={cn('flex bg-card rounded-lg border shadow-sm overflow-hidden', className)}>
+      <div className="w-40 flex-none flex items-center px-3 border-r bg-muted/30 text-xs font-medium text-muted-foreground">
+        Overview
+      </div>
+      <div
+        ref={trackRef}
+        className="relative flex-grow h-14 cursor-pointer select-none"
+        style={{ touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {/* Commit density per type */}
+        <div className="absolute inset-x-0 bottom-0 top-2 flex items-end">
+          {bins.map((bin, index) => (
+            <div key={index} className="flex-1 h-full flex flex-col-reverse">
+              {TYPE_ORDER.map(type => bin[type] > 0 && (
+                <div
+                  key={type}
+                  className={cn(getCommitTypeColor(type), 'opacity-70')}
+                  style={{ height: `${(bin[type] / maxBinCount) * 100}%` }}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+
+        {/* Milestones and tags */}
+        {milestones.map(commit => (
+          <div
+            key={commit.sha}
+            className="absolute top-0 h-3 w-0.5 -translate-x-1/2 bg-commit-milestone pointer-events-none"
+            style={{ left: `${getPosition(new Date(commit.date).getTime())}%` }}
+          />
+        ))}
+        {tags.map(tag => (
+          <div
+            key={tag.name}
+            className="absolute top-0 h-3 w-0.5 -translate-x-1/2 bg-amber-500"
+            style={{ left: `${getPosition(new Date(tag.date).getTime())}%` }}
+            title={`${tag.name} • ${formatDate(tag.date)}`}
+          />
+        ))}
+
+        {/* Visible window of the timeline */}
+        <div
+          className="absolute inset-y-0 border-2 border-primary bg-primary/10 rounded-sm cursor-grab active:cursor-grabbing"
+          style={{ left: `${windowLeft}%`, width: `${Math.max(0.5, windowRight - windowLeft)}%` }}
+          title={`${formatDate(new Date(activeViewport.start).toISOString())} – ${formatDate(new Date(activeViewport.end).toISOString())}`}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TimelineMinimap;
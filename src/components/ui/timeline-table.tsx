@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Commit, TimelineViewport } from '@/types';
+import { formatDate } from '@/utils/date-utils';
+import { cn } from '@/lib/utils';
+
+interface TimelineTableProps {
+  commits: Commit[];
+  /** Only commits inside this window are listed */
+  viewport: TimelineViewport;
+  selectedCommit?: string;
+  onCommitSelect: (commitSha: string) => void;
+  className?: string;
+}
+
+// Rows listed at once; zooming the timeline narrows the list
+const MAX_ROWS = 500;
+
+/**
+ * Tabular alternative to the timeline listing the commits in view, newest first.
+ * Rendered visually hidden by the timeline for screen readers.
+ */
+const TimelineTable: React.FC<TimelineTableProps> = ({
+  commits,
+  viewport,
+  selectedCommit,
+  onCommitSelect,
+  className,
+}) => {
+  const visibleCommits = useMemo(
+    () => commits
+      .map(commit => ({ commit, time: new Date(commit.date).getTime() }))
+      .filter(({ time }) => time >= viewport.start && time <= viewport.end)
+      .sort((a, b) => b.time - a.time)
+      .map(({ commit }) => commit),
+    [commits, viewport]
+  );
+
+  return (
+    <Table className={className}>
+      <TableCaption>
+        {visibleCommits.length > MAX_ROWS
+          ? `First ${MAX_ROWS} of ${visibleCommits.length} commits`
+          : `${visibleCommits.length} commits`}{' '}
+        between {formatDate(new Date(viewport.start).toISOString())} and {formatDate(new Date(viewport.end).toISOString())}
+      </TableCaption>
+      <TableHeader>
+        <TableRow>
+          <TableHead scope="col">Date</TableHead>
+          <TableHead scope="col">Type</TableHead>
+          <TableHead scope="col">Author</TableHead>
+          <TableHead scope="col">Title</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {visibleCommits.slice(0, MAX_ROWS).map(commit => {
+          const analysis = (commit.commit_analyses || commit.commit_analises || [])[0];
+
+          return (
+            <TableRow key={commit.sha} aria-current={selectedCommit === commit.sha || undefined}>
+              <TableCell>{formatDate(commit.date)}</TableCell>
+              <TableCell>{analysis?.type || 'CHORE'}</TableCell>
+              <TableCell>{commit.author}</TableCell>
+              <TableCell>
+                <button
+                  className={cn('text-left', selectedCommit === commit.sha && 'font-medium')}
+                  onClick={() => onCommitSelect(commit.sha)}
+                >
+                  {analysis?.title || commit.message}
+                </button>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default TimelineTable;
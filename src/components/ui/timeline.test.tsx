@@ -0,0 +1,155 @@
+import { act, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { axe } from 'jest-axe';
+import { describe, expect, it, vi } from 'vitest';
+import Timeline from '@/components/ui/timeline';
+import TimelineTable from '@/components/ui/timeline-table';
+import { Commit, CommitType } from '@/types';
+
+const createCommit = (sha: string, date: string, type: CommitType, title: string): Commit => ({
+  sha,
+  created_at: date,
+  repo_name: 'acme/widgets',
+  author: 'Ada',
+  author_url: '',
+  author_email: 'ada@example.com',
+  date,
+  message: title,
+  url: `https://github.com/acme/widgets/commit/${sha}`,
+  description: '',
+  commit_analyses: [{
+    id: `analysis-${sha}`,
+    created_at: date,
+    repo_name: 'acme/widgets',
+    title,
+    idea: '',
+    description: '',
+    commit_sha: sha,
+    type,
+  }],
+});
+
+// Two rows (FEATURE above BUG); the last two bugs land within a minute and draw as one cluster
+const commits = [
+  createCommit('f1', '2026-01-01T12:00:00Z', 'FEATURE', 'Add search'),
+  createCommit('f2', '2026-01-03T12:00:00Z', 'FEATURE', 'Add export'),
+  createCommit('f3', '2026-01-05T12:00:00Z', 'FEATURE', 'Add import'),
+  createCommit('b1', '2026-01-02T12:00:00Z', 'BUG', 'Fix crash'),
+  createCommit('b2', '2026-01-04T18:00:00Z', 'BUG', 'Fix leak'),
+  createCommit('b3', '2026-01-04T18:01:00Z', 'BUG', 'Fix typo'),
+];
+
+const renderTimeline = (onCommitSelect = vi.fn()) => {
+  const result = render(
+    <Timeline commits={commits} timeScale="day" groupBy="type" onCommitSelect={onCommitSelect} />
+  );
+  const timeline = screen.getByRole('region', { name: 'Commit timeline' });
+  const marker = (name: RegExp) => within(timeline).getByRole('button', { name });
+  return { ...result, timeline, marker, onCommitSelect };
+};
+
+const focus = (element: HTMLElement) => act(() => element.focus());
+
+describe('Timeline keyboard navigation', () => {
+  it('makes a single marker the tab stop', () => {
+    const { timeline, marker } = renderTimeline();
+
+    const tabStops = within(timeline).getAllByRole('button').filter(button => button.tabIndex === 0);
+    expect(tabStops).toEqual([marker(/Add search/)]);
+  });
+
+  it('moves through a row in time order with the arrow keys, Home and End', async () => {
+    const user = userEvent.setup();
+    const { marker } = renderTimeline();
+
+    focus(marker(/Add search/));
+
+    await user.keyboard('{ArrowRight}');
+    expect(marker(/Add export/)).toHaveFocus();
+    expect(marker(/Add export/)).toHaveAttribute('tabindex', '0');
+    expect(marker(/Add search/)).toHaveAttribute('tabindex', '-1');
+
+    await user.keyboard('{ArrowLeft}');
+    expect(marker(/Add search/)).toHaveFocus();
+
+    await user.keyboard('{End}');
+    expect(marker(/Add import/)).toHaveFocus();
+
+    await user.keyboard('{Home}');
+    expect(marker(/Add search/)).toHaveFocus();
+  });
+
+  it('moves between rows to the nearest commit in time', async () => {
+    const user = userEvent.setup();
+    const { marker } = renderTimeline();
+
+    focus(marker(/Add search/));
+    await user.keyboard('{ArrowDown}');
+    expect(marker(/Fix crash/)).toHaveFocus();
+
+    await user.keyboard('{ArrowRight}');
+    expect(marker(/Cluster of 2 commits/)).toHaveFocus();
+
+    await user.keyboard('{ArrowUp}');
+    expect(marker(/Add import/)).toHaveFocus();
+  });
+
+  it('selects a commit with Enter', async () => {
+    const user = userEvent.setup();
+    const { marker, onCommitSelect } = renderTimeline();
+
+    focus(marker(/Add search/));
+    await user.keyboard('{ArrowRight}{Enter}');
+    expect(onCommitSelect).toHaveBeenCalledWith('f2');
+  });
+
+  it('opens a cluster with Space and selects its commits from the keyboard', async () => {
+    const user = userEvent.setup();
+    const { marker, onCommitSelect } = renderTimeline();
+
+    focus(marker(/Cluster of 2 commits/));
+    await user.keyboard(' ');
+    const dialog = await screen.findByRole('dialog', { name: 'Commit Cluster' });
+
+    focus(within(dialog).getByRole('button', { name: /Fix typo/ }));
+    await user.keyboard(' ');
+    expect(onCommitSelect).toHaveBeenCalledWith('b3');
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+    focus(marker(/Cluster of 2 commits/));
+    await user.keyboard('{Enter}');
+    const reopened = await screen.findByRole('dialog', { name: 'Commit Cluster' });
+    focus(within(reopened).getByRole('button', { name: /Fix leak/ }));
+    await user.keyboard('{Enter}');
+    expect(onCommitSelect).toHaveBeenCalledWith('b2');
+  });
+});
+
+describe('Timeline accessibility', () => {
+  it('has no axe violations', async () => {
+    const { container } = renderTimeline();
+
+    expect((await axe(container)).violations).toEqual([]);
+  });
+
+  it('lists the commits in view in the hidden table', async () => {
+    const { container } = renderTimeline();
+
+    const table = within(container).getByRole('table');
+    expect(within(table).getAllByRole('row')).toHaveLength(commits.length + 1);
+    expect((await axe(table)).violations).toEqual([]);
+  });
+
+  it('has no axe violations in the table view on its own', async () => {
+    const { container } = render(
+      <TimelineTable
+        commits={commits}
+        viewport={{ start: Date.parse('2026-01-01T00:00:00Z'), end: Date.parse('2026-01-06T00:00:00Z') }}
+        selectedCommit="f2"
+        onCommitSelect={vi.fn()}
+      />
+    );
+
+    expect((await axe(container)).violations).toEqual([]);
+  });
+});
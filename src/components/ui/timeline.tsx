@@ -1,57 +1,259 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { ScrollArea } from '@/components/ui/scroll-area';
+import React, { useState, useRef, useEffect, useMemo, useCallback, useDeferredValue, useId } from 'react';
 import { Separator } from '@/components/ui/separator';
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { Commit, TimeScale, GroupBy, CommitType } from '@/types';
-import { calculateTimeRange, generateTimeIntervals, formatTimeInterval, calculateCommitPosition } from '@/utils/date-utils';
-import { groupCommits, getCommitTypeColor } from '@/utils/filter-utils';
-import { GitCommit, Sparkles, AlertTriangle, Trophy, Bug, Wrench, Layers } from 'lucide-react';
+import { BranchComparison, Commit, Tag as GitTag, TimelineViewport, TimeScale, GroupBy, CommitType } from '@/types';
+import { calculateCommitPosition, generateTimeTicks, getFittedViewport, getViewportForRange, panViewport, zoomViewport } from '@/utils/date-utils';
+import { getCommitTypeColor } from '@/utils/filter-utils';
+import {
+  buildTimelineGroups,
+  clusterVisibleCommits,
+  ClusteredCommit,
+  getNearestCommitIndex,
+  getNextCommitIndex,
+  getPreviousCommitIndex,
+  getVisibleRowRange,
+  summarizeCluster,
+} from '@/utils/timeline-utils';
+import { GitCommit, GitFork, Tag, Sparkles, AlertTriangle, Trophy, Bug, Wrench, Layers, History, Loader2, ZoomIn, ZoomOut, Maximize2, Scan } from 'lucide-react';
 import { formatDate } from '@/utils/date-utils';
 import { cn } from '@/lib/utils';
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import TimelineTable from '@/components/ui/timeline-table';
+import HighlightedText from '@/components/ui/highlighted-text';
+import { pickHighlightedText } from '@/lib/search-index';
 
 interface TimelineProps {
   commits: Commit[];
+  /** Padding around the commits when the timeline is zoomed to fit */
   timeScale: TimeScale;
+  /** Visible time window; null (or omitted) fits every commit */
+  viewport?: TimelineViewport | null;
+  /** Called while zooming and panning, and with null when the view is reset to fit */
+  onViewportChange?: (viewport: TimelineViewport | null) => void;
   groupBy: GroupBy;
+  /** Globs naming the modules commits are grouped into with `groupBy="path"`, e.g. `packages/*` */
+  moduleGlobs?: string[];
   selectedCommit?: string;
   onCommitSelect: (commitSha: string) => void;
+  /** Commits that just arrived and should animate onto the timeline */
+  highlightedCommits?: string[];
+  /** Whether older commits can still be loaded */
+  hasEarlierHistory?: boolean;
+  isLoadingEarlierHistory?: boolean;
+  onLoadEarlierHistory?: () => void;
+  /** Overlay of two branches; commits only on the compared branch are drawn outlined */
+  branchComparison?: BranchComparison;
+  /** Tags and releases drawn as vertical markers across every row */
+  tags?: GitTag[];
+  /** Name of the tag whose release is currently shown */
+  selectedTag?: string | null;
+  onTagSelect?: (tag: GitTag) => void;
+  /** Playback time (ms): commits after it are hidden and a cursor line is drawn */
+  playbackCursor?: number | null;
+  /** Words a search matched, highlighted in the cluster dialog */
+  searchHighlights?: string[];
   className?: string;
 }
 
-interface ClusteredCommit {
-  position: number;
-  commits: Commit[];
-}
+// How strongly a wheel step zooms; trackpad pinches send many small steps
+const WHEEL_ZOOM_SPEED = 0.002;
+// Pointer movement (px) below which a press is treated as a click rather than a drag
+const DRAG_THRESHOLD_PX = 3;
+// Fixed row height, so the rows in view can be computed from the scroll offset
+const ROW_HEIGHT = 80;
+// Markers closer than this on screen collide and are drawn as one cluster (about one marker wide)
+const CLUSTER_COLLISION_PX = 36;
+// Commits listed in the cluster dialog; larger clusters are explored by zooming in
+const CLUSTER_DIALOG_LIMIT = 100;
+// Authors listed by name in the cluster dialog
+const CLUSTER_DIALOG_AUTHORS = 8;
 
 const Timeline: React.FC<TimelineProps> = ({
   commits,
   timeScale,
+  viewport,
+  onViewportChange,
   groupBy,
+  moduleGlobs,
   selectedCommit,
   onCommitSelect,
+  highlightedCommits = [],
+  hasEarlierHistory = false,
+  isLoadingEarlierHistory = false,
+  onLoadEarlierHistory,
+  branchComparison,
+  tags = [],
+  selectedTag,
+  onTagSelect,
+  playbackCursor = null,
+  searchHighlights,
   className
 }) => {
-  const [timeRange, setTimeRange] = useState(() => calculateTimeRange(commits, timeScale));
-  const [timeIntervals, setTimeIntervals] = useState(() => 
-    generateTimeIntervals(timeRange.start, timeRange.end, timeScale)
-  );
-  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const [localViewport, setLocalViewport] = useState<TimelineViewport | null>(null);
+  const fittedViewport = useMemo(() => getFittedViewport(commits, timeScale), [commits, timeScale]);
+  // The viewport is controlled when the prop is given, otherwise kept locally
+  const currentViewport = viewport !== undefined ? viewport : localViewport;
+  const activeViewport = currentViewport || fittedViewport;
+  const timeRange = { start: new Date(activeViewport.start), end: new Date(activeViewport.end) };
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const [bodyScrollTop, setBodyScrollTop] = useState(0);
+  const [bodyHeight, setBodyHeight] = useState(ROW_HEIGHT * 8);
+  const [hoverCard, setHoverCard] = useState<{ cluster: ClusteredCommit; x: number; y: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLDivElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [trackWidth, setTrackWidth] = useState(800);
   const [hoveredCommit, setHoveredCommit] = useState<string | null>(null);
   const [openClusterDialog, setOpenClusterDialog] = useState(false);
   const [selectedCluster, setSelectedCluster] = useState<ClusteredCommit | null>(null);
+  const clusterSummary = useMemo(
+    () => (selectedCluster ? summarizeCluster(selectedCluster.commits) : null),
+    [selectedCluster]
+  );
+  const ticks = useMemo(() => generateTimeTicks(activeViewport, trackWidth), [activeViewport, trackWidth]);
+  // Roving tabindex: the commit (by row and time) whose marker is the timeline's single tab stop
+  const [focusTarget, setFocusTarget] = useState<{ group: string; time: number; sha: string } | null>(null);
+  const focusRequestedRef = useRef(false);
+  const tabStopRef = useRef<HTMLButtonElement>(null);
+  const keyboardHelpId = useId();
+  // The hidden table re-renders hundreds of rows, so it may lag behind zooming and panning
+  const tableViewport = useDeferredValue(activeViewport);
+  
+  const changeViewport = useCallback((next: TimelineViewport | null) => {
+    // Markers move, so a hover card would point at the wrong place
+    setHoverCard(null);
+    if (viewport === undefined) setLocalViewport(next);
+    onViewportChange?.(next);
+  }, [viewport, onViewportChange]);
+  
+  // Native listeners read the latest values through refs instead of re-subscribing
+  const viewportRef = useRef(activeViewport);
+  viewportRef.current = activeViewport;
+  const changeViewportRef = useRef(changeViewport);
+  changeViewportRef.current = changeViewport;
+  
+  // Tick density and clustering follow the rendered size of the time axis and body
+  useEffect(() => {
+    const track = trackRef.current;
+    const body = bodyRef.current;
+    if (!track || !body) return;
+    
+    const observer = new ResizeObserver(() => {
+      setTrackWidth(track.clientWidth);
+      setBodyHeight(body.clientHeight);
+    });
+    observer.observe(track);
+    observer.observe(body);
+    return () => observer.disconnect();
+  }, []);
   
-  // Update time range and intervals when commits or timeScale changes
+  // Wheel over the header, ctrl/⌘ + wheel and trackpad pinches zoom; horizontal or shift + wheel pans.
+  // Registered natively because React's wheel listener is passive and can't prevent page scrolling.
   useEffect(() => {
-    const range = calculateTimeRange(commits, timeScale);
-    setTimeRange(range);
-    setTimeIntervals(generateTimeIntervals(range.start, range.end, timeScale));
-  }, [commits, timeScale]);
+    const container = containerRef.current;
+    if (!container) return;
+    
+    const handleWheel = (event: WheelEvent) => {
+      const rect = trackRef.current?.getBoundingClientRect();
+      if (!rect || event.clientX < rect.left) return;
+      
+      if (event.ctrlKey || event.metaKey || headerRef.current?.contains(event.target as Node)) {
+        event.preventDefault();
+        const anchor = (event.clientX - rect.left) / rect.width;
+        changeViewportRef.current(zoomViewport(viewportRef.current, Math.exp(event.deltaY * WHEEL_ZOOM_SPEED), anchor));
+      } else if (event.shiftKey || Math.abs(event.deltaX) > Math.abs(event.deltaY)) {
+        event.preventDefault();
+        const delta = event.deltaX || event.deltaY;
+        changeViewportRef.current(panViewport(viewportRef.current, delta / rect.width));
+      }
+    };
+    
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+  
+  // Drag to pan; two pointers (touch) pinch to zoom
+  const pointersRef = useRef(new Map<number, number>());
+  const gestureRef = useRef<{ viewport: TimelineViewport; center: number; distance: number; moved: boolean } | null>(null);
+  
+  const startGesture = () => {
+    const xs = Array.from(pointersRef.current.values());
+    gestureRef.current = xs.length === 0 ? null : {
+      viewport: viewportRef.current,
+      center: xs.reduce((sum, x) => sum + x, 0) / xs.length,
+      distance: xs.length > 1 ? Math.abs(xs[0] - xs[1]) : 0,
+      moved: false,
+    };
+  };
+  
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || event.clientX < rect.left || (event.target as HTMLElement).closest('button')) return;
+    
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointersRef.current.set(event.pointerId, event.clientX);
+    startGesture();
+  };
+  
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const gesture = gestureRef.current;
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!gesture || !rect || !pointersRef.current.has(event.pointerId)) return;
+    
+    pointersRef.current.set(event.pointerId, event.clientX);
+    const xs = Array.from(pointersRef.current.values());
+    const center = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    if (!gesture.moved && xs.length === 1 && Math.abs(center - gesture.center) < DRAG_THRESHOLD_PX) return;
+    gesture.moved = true;
+    
+    // Dragging to the right moves back in time
+    let next = panViewport(gesture.viewport, -(center - gesture.center) / rect.width);
+    if (xs.length > 1 && gesture.distance > 0) {
+      const distance = Math.max(1, Math.abs(xs[0] - xs[1]));
+      next = zoomViewport(next, gesture.distance / distance, (center - rect.left) / rect.width);
+    }
+    changeViewport(next);
+  };
+  
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(event.pointerId);
+    startGesture();
+  };
+  
+  const getTimePosition = (time: number) =>
+    ((time - activeViewport.start) / Math.max(1, activeViewport.end - activeViewport.start)) * 100;
 
-  const groupedCommits = groupCommits(commits, groupBy);
+  const groups = useMemo(() => buildTimelineGroups(commits, groupBy, moduleGlobs), [commits, groupBy, moduleGlobs]);
+  const visibleRows = getVisibleRowRange(bodyScrollTop, bodyHeight, ROW_HEIGHT, groups.length);
+  // Only the rows in view are clustered, and only within the viewport's time window
+  const visibleClusters = useMemo(
+    () => groups
+      .slice(visibleRows.start, visibleRows.end)
+      .map(group => clusterVisibleCommits(group, activeViewport, trackWidth, CLUSTER_COLLISION_PX, playbackCursor ?? Infinity)),
+    [groups, visibleRows.start, visibleRows.end, activeViewport, trackWidth, playbackCursor]
+  );
+  const highlightedSet = useMemo(() => new Set(highlightedCommits), [highlightedCommits]);
+  const isCompareOnly = (commit: Commit) => branchComparison?.membership.get(commit.sha) === 'compare';
+  const getBranchLabel = (commit: Commit) => {
+    if (!branchComparison) return null;
+    const membership = branchComparison.membership.get(commit.sha);
+    if (membership === 'base') return `Only on ${branchComparison.base}`;
+    if (membership === 'compare') return `Only on ${branchComparison.compare}`;
+    return null;
+  };
+  // Tags outside the visible range are not drawn
+  const tagMarkers = tags
+    .map(tag => ({
+      tag,
+      position: calculateCommitPosition(tag.date, timeRange.start, timeRange.end),
+    }))
+    .filter(marker => marker.position >= 0 && marker.position <= 100);
+  const playbackPosition = playbackCursor !== null ? getTimePosition(playbackCursor) : null;
+  const divergencePosition = branchComparison?.divergedAt
+    ? calculateCommitPosition(branchComparison.divergedAt.date, timeRange.start, timeRange.end)
+    : null;
   
   const getCommitTypeIcon = (type: CommitType) => {
     switch (type) {
@@ -64,34 +266,27 @@ const Timeline: React.FC<TimelineProps> = ({
     }
   };
 
-  // Function to cluster commits that appear at the same position
-  const clusterCommits = (commits: Commit[], groupName: string): ClusteredCommit[] => {
-    const positionMap: Record<number, Commit[]> = {};
-    
-    // Calculate positions and group commits by their positions
-    commits.forEach(commit => {
-      const position = calculateCommitPosition(
-        commit.date,
-        timeRange.start,
-        timeRange.end,
-        timeScale
-      );
-      
-      // Round to nearest whole number to group commits at similar positions
-      const roundedPosition = Math.round(position);
-      
-      if (!positionMap[roundedPosition]) {
-        positionMap[roundedPosition] = [];
-      }
-      
-      positionMap[roundedPosition].push(commit);
-    });
-    
-    // Convert the map to an array of clustered commits
-    return Object.entries(positionMap).map(([pos, groupedCommits]) => ({
-      position: Number(pos),
-      commits: groupedCommits
-    }));
+  const getCommitType = (commit: Commit): CommitType => {
+    // Support both property names
+    const analyses = commit.commit_analyses || commit.commit_analises || [];
+    return analyses[0]?.type || 'CHORE';
+  };
+  
+  const getDominantType = (commits: Commit[]): CommitType => {
+    const counts = commits.reduce(
+      (acc, commit) => {
+        const type = getCommitType(commit);
+        acc[type] = (acc[type] || 0) + 1;
+        return acc;
+      },
+      {} as Record<string, number>
+    );
+    return Object.entries(counts).sort((a, b) => b[1] - a[1])[0][0] as CommitType;
+  };
+  
+  const showHoverCard = (cluster: ClusteredCommit, element: HTMLElement) => {
+    const rect = element.getBoundingClientRect();
+    setHoverCard({ cluster, x: rect.left + rect.width / 2, y: rect.top });
   };
 
   const handleClusterClick = (cluster: ClusteredCommit) => {
@@ -104,32 +299,257 @@ const Timeline: React.FC<TimelineProps> = ({
     setOpenClusterDialog(false);
   };
 
+  const getTypeLabel = (type: CommitType) => `${type.charAt(0)}${type.slice(1).toLowerCase()}`;
+
+  const getCommitLabel = (commit: Commit) => {
+    const analysis = (commit.commit_analyses || commit.commit_analises || [])[0];
+    const branchLabel = getBranchLabel(commit);
+    return `${getTypeLabel(getCommitType(commit))} commit by ${commit.author} on ${formatDate(commit.date)}: ` +
+      `${analysis?.title || commit.message}${branchLabel ? ` (${branchLabel})` : ''}`;
+  };
+
+  const getMarkerLabel = (cluster: ClusteredCommit) => {
+    if (cluster.commits.length === 1) return getCommitLabel(cluster.commits[0]);
+    return `Cluster of ${cluster.commits.length} commits from ${formatDate(new Date(cluster.start).toISOString())} ` +
+      `to ${formatDate(new Date(cluster.end).toISOString())}, mostly ${getTypeLabel(getDominantType(cluster.commits)).toLowerCase()}`;
+  };
+
+  const getTabStop = () => {
+    if (focusTarget) {
+      const row = groups.findIndex(group => group.name === focusTarget.group);
+      const index = (visibleClusters[row - visibleRows.start] || [])
+        .findIndex(cluster => cluster.start <= focusTarget.time && focusTarget.time <= cluster.end);
+      if (index !== -1) return { row, index };
+    }
+    // Fall back to the first marker in view
+    const offset = visibleClusters.findIndex(clusters => clusters.length > 0);
+    return offset === -1 ? null : { row: visibleRows.start + offset, index: 0 };
+  };
+  const tabStop = getTabStop();
+
+  // Move DOM focus once the marker requested from the keyboard has rendered
+  useEffect(() => {
+    if (!focusRequestedRef.current) return;
+    focusRequestedRef.current = false;
+    tabStopRef.current?.focus();
+  });
+
+  const focusCommit = (rowIndex: number, commitIndex: number) => {
+    const group = groups[rowIndex];
+    const time = group.times[commitIndex];
+    if (time < activeViewport.start || time > activeViewport.end) {
+      const halfSpan = (activeViewport.end - activeViewport.start) / 2;
+      changeViewport({ start: time - halfSpan, end: time + halfSpan });
+    }
+
+    // Rows outside the scrolled window aren't rendered, so bring the row into view first
+    const body = bodyRef.current;
+    if (body) {
+      const top = rowIndex * ROW_HEIGHT;
+      const scrollTop = Math.min(top, Math.max(body.scrollTop, top + ROW_HEIGHT - body.clientHeight));
+      if (scrollTop !== body.scrollTop) {
+        body.scrollTop = scrollTop;
+        setBodyScrollTop(scrollTop);
+      }
+    }
+
+    focusRequestedRef.current = true;
+    setFocusTarget({ group: group.name, time, sha: group.commits[commitIndex].sha });
+  };
+
+  // Arrows move through commits in time order and between rows; Enter and Space activate the marker
+  const handleMarkerKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>, rowIndex: number, cluster: ClusteredCommit) => {
+    const group = groups[rowIndex];
+    let target: { row: number; index: number } | null = null;
+
+    switch (event.key) {
+      case 'ArrowRight':
+        target = { row: rowIndex, index: getNextCommitIndex(group, cluster.end) };
+        break;
+      case 'ArrowLeft':
+        target = { row: rowIndex, index: getPreviousCommitIndex(group, cluster.start) };
+        break;
+      case 'Home':
+        target = { row: rowIndex, index: 0 };
+        break;
+      case 'End':
+        target = { row: rowIndex, index: group.times.length - 1 };
+        break;
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        const row = rowIndex + (event.key === 'ArrowUp' ? -1 : 1);
+        const markerTime = activeViewport.start + (cluster.position / 100) * (activeViewport.end - activeViewport.start);
+        if (groups[row]) target = { row, index: getNearestCommitIndex(groups[row], markerTime) };
+        break;
+      }
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    if (target && target.index !== -1) focusCommit(target.row, target.index);
+  };
+
+  const handleMarkerFocus = (event: React.FocusEvent<HTMLButtonElement>, rowIndex: number, cluster: ClusteredCommit) => {
+    if (!focusTarget || focusTarget.group !== groups[rowIndex].name ||
+      focusTarget.time < cluster.start || focusTarget.time > cluster.end) {
+      setFocusTarget({ group: groups[rowIndex].name, time: cluster.start, sha: cluster.commits[0].sha });
+    }
+    showHoverCard(cluster, event.currentTarget);
+  };
+
+  const handleZoomToCluster = () => {
+    if (!selectedCluster) return;
+    changeViewport(getViewportForRange(selectedCluster.start, selectedCluster.end));
+    setOpenClusterDialog(false);
+  };
+
   return (
-    <div className="w-full h-full flex flex-col bg-card rounded-lg border shadow-sm overflow-hidden">
-      {/* Timeline Header - Time Intervals */}
-      <div className="flex-none bg-muted/30 border-b">
-        <div className="flex pl-40">
-          {timeIntervals.map((interval, index) => (
-            <div 
-              key={index} 
-              className="flex-1 px-2 py-3 text-center text-xs font-medium border-r last:border-r-0"
-            >
-              {formatTimeInterval(interval, timeScale)}
+    <div
+      ref={containerRef}
+      className={cn('w-full h-full flex flex-col bg-card rounded-lg border shadow-sm overflow-hidden', className)}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {/* Timeline Header - Time Ticks */}
+      <div ref={headerRef} className="flex-none bg-muted/30 border-b">
+        <div className="flex">
+          <div className="w-40 flex-none flex flex-col items-center justify-center gap-1 border-r py-1">
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Zoom in"
+                onClick={() => changeViewport(zoomViewport(activeViewport, 0.5))}
+              >
+                <ZoomIn className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Zoom out"
+                onClick={() => changeViewport(zoomViewport(activeViewport, 2))}
+              >
+                <ZoomOut className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Fit all commits"
+                disabled={!currentViewport}
+                onClick={() => changeViewport(null)}
+              >
+                <Maximize2 className="h-3.5 w-3.5" />
+              </Button>
             </div>
-          ))}
+            {hasEarlierHistory && onLoadEarlierHistory && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-xs"
+                onClick={onLoadEarlierHistory}
+                disabled={isLoadingEarlierHistory}
+              >
+                {isLoadingEarlierHistory ? (
+                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                ) : (
+                  <History className="h-3 w-3 mr-1" />
+                )}
+                Load earlier
+              </Button>
+            )}
+          </div>
+          <div
+            ref={trackRef}
+            className={cn(
+              'flex-grow relative overflow-hidden cursor-grab active:cursor-grabbing select-none',
+              // Leave room for the tag labels above the tick labels
+              tagMarkers.length > 0 ? 'h-16' : 'h-11'
+            )}
+            style={{ touchAction: 'pan-y' }}
+          >
+            {ticks.map(tick => (
+              <div
+                key={tick.time}
+                className="absolute inset-y-0 flex items-end border-l pl-2 pb-3 text-xs font-medium whitespace-nowrap"
+                style={{ left: `${getTimePosition(tick.time)}%` }}
+              >
+                {tick.label}
+              </div>
+            ))}
+            {tagMarkers.map(({ tag, position }) => (
+              <button
+                key={tag.name}
+                className={cn(
+                  'absolute top-0 -translate-x-1/2 z-10 flex items-center gap-1 rounded-b-md px-1.5 py-0.5',
+                  'text-[10px] font-medium whitespace-nowrap transition-colors',
+                  selectedTag === tag.name
+                    ? 'bg-amber-500 text-white'
+                    : 'bg-amber-100 text-amber-900 hover:bg-amber-200'
+                )}
+                style={{ left: `${position}%` }}
+                title={`${tag.name} • ${formatDate(tag.date)}${tag.message ? `\n${tag.message}` : ''}`}
+                onClick={() => onTagSelect?.(tag)}
+              >
+                <Tag className="h-3 w-3" />
+                {tag.name}
+              </button>
+            ))}
+            {playbackPosition !== null && (
+              <div
+                className="absolute inset-y-0 border-l-2 border-primary pointer-events-none"
+                style={{ left: `${playbackPosition}%` }}
+              />
+            )}
+            {divergencePosition !== null && branchComparison?.divergedAt && (
+              <div
+                className="absolute bottom-0 -translate-x-1/2 flex items-center gap-1 rounded-t-md bg-primary px-2 py-0.5 text-[10px] font-medium text-primary-foreground whitespace-nowrap"
+                style={{ left: `${divergencePosition}%` }}
+                title={`${branchComparison.compare} diverged from ${branchComparison.base} after ${formatDate(branchComparison.divergedAt.date)}`}
+              >
+                <GitFork className="h-3 w-3" />
+                Diverged
+              </div>
+            )}
+          </div>
         </div>
       </div>
       
-      {/* Timeline Body */}
-      <ScrollArea className="flex-grow h-full" ref={scrollAreaRef}>
-        <div className="min-w-fit h-full">
-          {/* Render each group */}
-          {Object.entries(groupedCommits).map(([groupName, groupCommits], groupIndex) => (
-            groupCommits.length > 0 && (
-              <div key={groupName} className="group/row">
+      {/* Timeline Body - only the rows scrolled into view are rendered */}
+      <p id={keyboardHelpId} className="sr-only">
+        Use the arrow keys to move between commits and rows, Home and End to jump to the first or last commit of a row,
+        Enter to select a commit and Space to open a cluster. A table of the commits in view follows the timeline.
+      </p>
+      <div
+        ref={bodyRef}
+        className="flex-grow overflow-y-auto max-h-[70vh]"
+        role="region"
+        aria-label="Commit timeline"
+        aria-describedby={keyboardHelpId}
+        onScroll={event => setBodyScrollTop(event.currentTarget.scrollTop)}
+      >
+        <div className="min-w-fit" style={{ height: groups.length * ROW_HEIGHT }}>
+          <div style={{ height: visibleRows.start * ROW_HEIGHT }} />
+          {groups.slice(visibleRows.start, visibleRows.end).map((group, index) => {
+            const groupName = group.name;
+            const rowIndex = visibleRows.start + index;
+            const clusters = visibleClusters[index] || [];
+            
+            return (
+              <div
+                key={groupName}
+                className="group/row"
+                role="group"
+                aria-label={`${groupName}, ${group.commits.length} commit${group.commits.length === 1 ? '' : 's'}`}
+              >
                 {/* Group Label */}
-                <div className="flex sticky left-0 z-10">
-                  <div className="w-40 bg-muted/30 p-3 font-medium border-r flex items-center">
+                <div className="flex sticky left-0 z-10" style={{ height: ROW_HEIGHT }}>
+                  <div className="w-40 flex-none bg-muted/30 p-3 font-medium border-r border-b flex items-center">
                     {groupBy === 'type' && (
                       <div className={cn(
                         'h-6 w-6 mr-2 rounded-md flex items-center justify-center',
@@ -142,141 +562,239 @@ const Timeline: React.FC<TimelineProps> = ({
                   </div>
                   
                   {/* Timeline Grid for this group */}
-                  <div className="flex-grow relative flex border-b min-h-[80px] group-hover/row:bg-muted/10">
-                    {timeIntervals.map((_, index) => (
-                      <div key={index} className="flex-1 border-r last:border-r-0"></div>
+                  <div
+                    className="flex-grow relative flex border-b overflow-hidden cursor-grab active:cursor-grabbing group-hover/row:bg-muted/10"
+                    style={{ touchAction: 'pan-y' }}
+                  >
+                    {ticks.map(tick => (
+                      <div
+                        key={tick.time}
+                        className="absolute inset-y-0 border-l pointer-events-none"
+                        style={{ left: `${getTimePosition(tick.time)}%` }}
+                      />
+                    ))}
+                    
+                    {divergencePosition !== null && (
+                      <div
+                        className="absolute inset-y-0 border-l-2 border-dashed border-primary/60 pointer-events-none"
+                        style={{ left: `${divergencePosition}%` }}
+                      />
+                    )}
+                    
+                    {playbackPosition !== null && (
+                      <div
+                        className="absolute inset-y-0 border-l-2 border-primary pointer-events-none"
+                        style={{ left: `${playbackPosition}%` }}
+                      />
+                    )}
+                    
+                    {tagMarkers.map(({ tag, position }) => (
+                      <div
+                        key={tag.name}
+                        className={cn(
+                          'absolute inset-y-0 pointer-events-none',
+                          selectedTag === tag.name ? 'border-l-2 border-amber-500' : 'border-l border-amber-400/70'
+                        )}
+                        style={{ left: `${position}%` }}
+                      />
                     ))}
                     
                     {/* Plot clustered commits */}
-                    {clusterCommits(groupCommits, groupName).map((cluster) => {
+                    {clusters.map((cluster, clusterIndex) => {
+                      const isTabStop = tabStop?.row === rowIndex && tabStop.index === clusterIndex;
+                      const markerProps = {
+                        ref: isTabStop ? tabStopRef : undefined,
+                        tabIndex: isTabStop ? 0 : -1,
+                        'aria-label': getMarkerLabel(cluster),
+                        onKeyDown: (event: React.KeyboardEvent<HTMLButtonElement>) => handleMarkerKeyDown(event, rowIndex, cluster),
+                        onFocus: (event: React.FocusEvent<HTMLButtonElement>) => handleMarkerFocus(event, rowIndex, cluster),
+                        onBlur: () => setHoverCard(null),
+                      };
+                      
                       // If there's only one commit in the cluster
                       if (cluster.commits.length === 1) {
                         const commit = cluster.commits[0];
-                        // Support both property names
-                        const analyses = commit.commit_analyses || commit.commit_analises || [];
-                        const analysis = analyses[0];
-                        const commitType = analysis?.type || 'CHORE';
+                        const commitType = getCommitType(commit);
                         
                         return (
-                          <TooltipProvider key={commit.sha}>
-                            <Tooltip delayDuration={200}>
-                              <TooltipTrigger asChild>
-                                <button
-                                  className={cn(
-                                    'absolute top-1/2 transform -translate-y-1/2 h-8 w-8 rounded-full',
-                                    'flex items-center justify-center transition-all duration-300',
-                                    'z-10 hover:z-20 hover:scale-125 hover:shadow-lg',
-                                    getCommitTypeColor(commitType),
-                                    (selectedCommit === commit.sha || hoveredCommit === commit.sha) && 
-                                      'ring-2 ring-offset-2 ring-primary scale-125 z-20'
-                                  )}
-                                  style={{ left: `${cluster.position}%` }}
-                                  onClick={() => onCommitSelect(commit.sha)}
-                                  onMouseEnter={() => setHoveredCommit(commit.sha)}
-                                  onMouseLeave={() => setHoveredCommit(null)}
-                                >
-                                  {getCommitTypeIcon(commitType)}
-                                </button>
-                              </TooltipTrigger>
-                              <TooltipContent 
-                                side="top" 
-                                className="max-w-xs p-0 overflow-hidden z-50"
-                                avoidCollisions={true}
-                                collisionPadding={20}
-                                sideOffset={12}
-                              >
-                                <div className="p-3">
-                                  <p className="font-medium text-sm">{analysis?.title || commit.message}</p>
-                                  <p className="text-xs text-muted-foreground mt-1">
-                                    {commit.author} • {formatDate(commit.date)}
-                                  </p>
-                                </div>
-                                <Separator />
-                                <div className="p-2 bg-muted/30 text-xs">
-                                  {analysis?.idea || commit.description?.substring(0, 100)}
-                                  {(analysis?.idea?.length || commit.description?.length) > 100 && '...'}
-                                </div>
-                              </TooltipContent>
-                            </Tooltip>
-                          </TooltipProvider>
-                        );
-                      } else {
-                        // Multiple commits in the cluster
-                        // Determine dominant commit type for the cluster color
-                        const commitTypes = cluster.commits.map(commit => {
-                          const analyses = commit.commit_analyses || commit.commit_analises || [];
-                          return analyses[0]?.type || 'CHORE';
-                        });
-                        
-                        const mostCommonType = commitTypes.reduce(
-                          (acc, type) => {
-                            acc[type] = (acc[type] || 0) + 1;
-                            return acc;
-                          },
-                          {} as Record<string, number>
-                        );
-                        
-                        const dominantType = Object.entries(mostCommonType).sort((a, b) => b[1] - a[1])[0][0] as CommitType;
-                        
-                        return (
-                          <TooltipProvider key={`cluster-${cluster.position}`}>
-                            <Tooltip delayDuration={200}>
-                              <TooltipTrigger asChild>
-                                <button
-                                  className={cn(
-                                    'absolute top-1/2 transform -translate-y-1/2 h-9 w-9 rounded-full',
-                                    'flex items-center justify-center transition-all duration-300',
-                                    'z-10 hover:z-20 hover:scale-125 hover:shadow-lg border-2',
-                                    getCommitTypeColor(dominantType)
-                                  )}
-                                  style={{ left: `${cluster.position}%` }}
-                                  onClick={() => handleClusterClick(cluster)}
-                                >
-                                  <Layers className="h-5 w-5" />
-                                  <span className="absolute -top-1 -right-1 h-5 w-5 rounded-full bg-primary text-white text-xs flex items-center justify-center font-bold">
-                                    {cluster.commits.length}
-                                  </span>
-                                </button>
-                              </TooltipTrigger>
-                              <TooltipContent 
-                                side="top" 
-                                className="max-w-xs p-0 overflow-hidden z-50"
-                                avoidCollisions={true}
-                                collisionPadding={20}
-                                sideOffset={12}
-                              >
-                                <div className="p-3">
-                                  <p className="font-medium text-sm">Commit Cluster</p>
-                                  <p className="text-xs text-muted-foreground mt-1">
-                                    Contains {cluster.commits.length} commits
-                                  </p>
-                                </div>
-                                <Separator />
-                                <div className="p-2 bg-muted/30 text-xs">
-                                  Click to view all {cluster.commits.length} commits in this time period
-                                </div>
-                              </TooltipContent>
-                            </Tooltip>
-                          </TooltipProvider>
+                          <button
+                            key={commit.sha}
+                            {...markerProps}
+                            aria-current={selectedCommit === commit.sha || undefined}
+                            className={cn(
+                              'absolute top-1/2 transform -translate-y-1/2 h-8 w-8 rounded-full',
+                              'flex items-center justify-center transition-[transform,box-shadow] duration-300',
+                              'z-10 hover:z-20 hover:scale-125 hover:shadow-lg',
+                              getCommitTypeColor(commitType),
+                              isCompareOnly(commit) && 'border-2 border-dashed border-foreground/70 opacity-75',
+                              highlightedSet.has(commit.sha) && 'animate-commit-arrive',
+                              (selectedCommit === commit.sha || hoveredCommit === commit.sha) && 
+                                'ring-2 ring-offset-2 ring-primary scale-125 z-20'
+                            )}
+                            style={{ left: `${cluster.position}%` }}
+                            onClick={() => onCommitSelect(commit.sha)}
+                            onMouseEnter={event => {
+                              setHoveredCommit(commit.sha);
+                              showHoverCard(cluster, event.currentTarget);
+                            }}
+                            onMouseLeave={() => {
+                              setHoveredCommit(null);
+                              setHoverCard(null);
+                            }}
+                          >
+                            {getCommitTypeIcon(commitType)}
+                          </button>
                         );
                       }
+                      
+                      // Multiple commits in the cluster, colored by their dominant type
+                      return (
+                        <button
+                          key={`cluster-${cluster.commits[0].sha}`}
+                          {...markerProps}
+                          aria-haspopup="dialog"
+                          className={cn(
+                            'absolute top-1/2 transform -translate-y-1/2 h-9 w-9 rounded-full',
+                            'flex items-center justify-center transition-[transform,box-shadow] duration-300',
+                            'z-10 hover:z-20 hover:scale-125 hover:shadow-lg border-2',
+                            getCommitTypeColor(getDominantType(cluster.commits)),
+                            cluster.commits.every(isCompareOnly) && 'border-dashed border-foreground/70 opacity-75',
+                            cluster.commits.some(commit => highlightedSet.has(commit.sha)) && 'animate-commit-arrive'
+                          )}
+                          style={{ left: `${cluster.position}%` }}
+                          onClick={() => handleClusterClick(cluster)}
+                          onMouseEnter={event => showHoverCard(cluster, event.currentTarget)}
+                          onMouseLeave={() => setHoverCard(null)}
+                        >
+                          <Layers className="h-5 w-5" />
+                          <span className="absolute -top-1 -right-1 h-5 min-w-5 px-1 rounded-full bg-primary text-white text-xs flex items-center justify-center font-bold">
+                            {cluster.commits.length}
+                          </span>
+                        </button>
+                      );
                     })}
                   </div>
                 </div>
               </div>
-            )
-          ))}
+            );
+          })}
+        </div>
+      </div>
+      
+      {/* One shared hover card instead of a tooltip per marker */}
+      {hoverCard && (
+        <div
+          className="fixed z-50 max-w-xs -translate-x-1/2 -translate-y-full rounded-md border bg-popover text-popover-foreground shadow-md overflow-hidden pointer-events-none animate-in fade-in-0 zoom-in-95"
+          style={{ left: hoverCard.x, top: hoverCard.y - 12 }}
+        >
+          {hoverCard.cluster.commits.length === 1 ? (() => {
+            const commit = hoverCard.cluster.commits[0];
+            const analyses = commit.commit_analyses || commit.commit_analises || [];
+            const analysis = analyses[0];
+            
+            return (
+              <>
+                <div className="p-3">
+                  <p className="font-medium text-sm">{analysis?.title || commit.message}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {commit.author} • {formatDate(commit.date)}
+                  </p>
+                  {getBranchLabel(commit) && (
+                    <p className="text-xs font-medium mt-1">{getBranchLabel(commit)}</p>
+                  )}
+                </div>
+                <Separator />
+                <div className="p-2 bg-muted/30 text-xs">
+                  {analysis?.idea || commit.description?.substring(0, 100)}
+                  {(analysis?.idea?.length || commit.description?.length) > 100 && '...'}
+                </div>
+              </>
+            );
+          })() : (
+            <>
+              <div className="p-3">
+                <p className="font-medium text-sm">Commit Cluster</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Contains {hoverCard.cluster.commits.length} commits •{' '}
+                  {formatDate(new Date(hoverCard.cluster.start).toISOString())} – {formatDate(new Date(hoverCard.cluster.end).toISOString())}
+                </p>
+              </div>
+              <Separator />
+              <div className="p-2 bg-muted/30 text-xs">
+                Click for a breakdown of this cluster, or zoom in to split it
+              </div>
+            </>
+          )}
         </div>
-      </ScrollArea>
+      )}
+
+      {/* Tabular alternative for screen readers, shown when keyboard focus enters it */}
+      <div className="sr-only focus-within:not-sr-only focus-within:max-h-96 focus-within:overflow-y-auto focus-within:border-t">
+        <TimelineTable
+          commits={commits}
+          viewport={tableViewport}
+          selectedCommit={selectedCommit}
+          onCommitSelect={onCommitSelect}
+        />
+      </div>
 
       {/* Cluster Dialog */}
       <Dialog open={openClusterDialog} onOpenChange={setOpenClusterDialog}>
         <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Commit Cluster</DialogTitle>
+            {selectedCluster && (
+              <DialogDescription>
+                {selectedCluster.commits.length} commits •{' '}
+                {formatDate(new Date(selectedCluster.start).toISOString())} – {formatDate(new Date(selectedCluster.end).toISOString())}
+              </DialogDescription>
+            )}
           </DialogHeader>
+          {selectedCluster && clusterSummary && (
+            <div className="space-y-4">
+              <div>
+                <h4 className="text-sm font-medium mb-2">Types</h4>
+                <div className="flex h-2 rounded-full overflow-hidden">
+                  {clusterSummary.types.map(({ type, count }) => (
+                    <div
+                      key={type}
+                      className={getCommitTypeColor(type)}
+                      style={{ width: `${(count / selectedCluster.commits.length) * 100}%` }}
+                    />
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {clusterSummary.types.map(({ type, count }) => (
+                    <Badge key={type} className={getCommitTypeColor(type)}>
+                      {type} {count}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <h4 className="text-sm font-medium mb-2">Authors</h4>
+                <div className="flex flex-wrap gap-2">
+                  {clusterSummary.authors.slice(0, CLUSTER_DIALOG_AUTHORS).map(({ name, count }) => (
+                    <Badge key={name} variant="secondary">
+                      {name} {count}
+                    </Badge>
+                  ))}
+                  {clusterSummary.authors.length > CLUSTER_DIALOG_AUTHORS && (
+                    <Badge variant="outline">
+                      +{clusterSummary.authors.length - CLUSTER_DIALOG_AUTHORS} more
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              <Button variant="secondary" size="sm" onClick={handleZoomToCluster}>
+                <Scan className="h-4 w-4 mr-2" />
+                Zoom to this cluster
+              </Button>
+              <Separator />
+            </div>
+          )}
           <div className="mt-4 space-y-4">
-            {selectedCluster?.commits.map((commit) => {
+            {selectedCluster?.commits.slice(0, CLUSTER_DIALOG_LIMIT).map((commit) => {
               const analyses = commit.commit_analyses || commit.commit_analises || [];
               const analysis = analyses[0];
               const commitType = analysis?.type || 'CHORE';
@@ -284,11 +802,21 @@ const Timeline: React.FC<TimelineProps> = ({
               return (
                 <div 
                   key={commit.sha} 
+                  role="button"
+                  tabIndex={0}
+                  aria-label={getCommitLabel(commit)}
+                  aria-current={selectedCommit === commit.sha || undefined}
                   className={cn(
-                    "p-4 border rounded-lg hover:bg-muted/50 transition-colors cursor-pointer",
+                    "p-4 border rounded-lg hover:bg-muted/50 transition-colors cursor-pointer focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
                     selectedCommit === commit.sha && "ring-2 ring-primary"
                   )}
                   onClick={() => handleCommitSelectFromCluster(commit.sha)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter' || event.key === ' ') {
+                      event.preventDefault();
+                      handleCommitSelectFromCluster(commit.sha);
+                    }
+                  }}
                 >
                   <div className="flex justify-between items-start mb-2">
                     <div className="flex items-center gap-2">
@@ -298,7 +826,7 @@ const Timeline: React.FC<TimelineProps> = ({
                       )}>
                         {getCommitTypeIcon(commitType)}
                       </div>
-                      <span className="font-medium">{analysis?.title || commit.message}</span>
+                      <HighlightedText className="font-medium" text={analysis?.title || commit.message} words={searchHighlights} />
                     </div>
                     <Badge className={getCommitTypeColor(commitType)}>
                       {commitType}
@@ -306,7 +834,14 @@ const Timeline: React.FC<TimelineProps> = ({
                   </div>
                   
                   <p className="text-sm text-muted-foreground mb-2 line-clamp-2">
-                    {analysis?.idea || commit.description}
+                    <HighlightedText
+                      text={pickHighlightedText(
+                        [analysis?.idea || commit.description, analysis?.description, commit.description, commit.message],
+                        searchHighlights
+                      )}
+                      words={searchHighlights}
+                      maxLength={160}
+                    />
                   </p>
                   
                   <div className="flex justify-between items-center text-xs text-muted-foreground mt-2">
@@ -316,6 +851,11 @@ const Timeline: React.FC<TimelineProps> = ({
                 </div>
               );
             })}
+            {selectedCluster && selectedCluster.commits.length > CLUSTER_DIALOG_LIMIT && (
+              <p className="text-sm text-muted-foreground text-center">
+                Showing the first {CLUSTER_DIALOG_LIMIT} of {selectedCluster.commits.length} commits. Zoom to this cluster to see the rest.
+              </p>
+            )}
           </div>
           <div className="flex justify-end mt-4">
             <Button variant="outline" onClick={() => setOpenClusterDialog(false)}>
@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { useDataSource } from '@/hooks/use-data-source';
+import { isAnalysisJobActive } from '@/utils/analysis-utils';
+
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Polls an analysis job until it succeeds or fails
+ */
+export function useAnalysisJob(jobId: string | null | undefined) {
+  const dataSource = useDataSource();
+
+  return useQuery({
+    queryKey: ['analysis-job', dataSource.cacheKey, jobId],
+    queryFn: () => dataSource.getAnalysisJob(jobId as string),
+    enabled: !!jobId,
+    refetchInterval: (query) => {
+      const job = query.state.data;
+      return job === undefined || isAnalysisJobActive(job) ? POLL_INTERVAL_MS : false;
+    },
+  });
+}
@@ -0,0 +1,109 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Commit } from '@/types';
+import { matchesCommitText, SearchTextMatcher } from '@/lib/search-query';
+import {
+  buildSearchIndex,
+  searchIndex,
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+  TermMatches,
+  toSearchDocument,
+} from '@/lib/search-index';
+
+export interface CommitSearch {
+  /** Matches free-text terms through the index */
+  matchText: SearchTextMatcher;
+  /** Relevance of every matching commit by SHA, summed over the terms */
+  scores: Map<string, number>;
+  /** Indexed words the terms matched, for highlighting */
+  highlights: string[];
+}
+
+interface SearchResponse {
+  commits: Commit[];
+  termsKey: string;
+  terms: string[];
+  results: TermMatches[];
+  highlights: string[];
+}
+
+/**
+ * Searches commits for free-text terms with the full-text index in
+ * `@/lib/search-index`, built in a Web Worker the first time there's something
+ * to search. Returns null until results for the current commits and terms
+ * arrive, so callers can fall back to substring matching meanwhile.
+ */
+export function useCommitSearch(commits: Commit[], terms: string[]): CommitSearch | null {
+  const workerRef = useRef<Worker | null>(null);
+  const indexedCommitsRef = useRef<Commit[] | null>(null);
+  // The latest search; older responses are dropped
+  const pendingRef = useRef<{ id: number; commits: Commit[]; terms: string[] } | null>(null);
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const termsKey = terms.join('\n');
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+
+    const worker = new Worker(new URL('../lib/search-index.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<SearchWorkerResponse>) => {
+      const pending = pendingRef.current;
+      if (!pending || event.data.id !== pending.id) return;
+      setResponse({
+        commits: pending.commits,
+        termsKey: pending.terms.join('\n'),
+        terms: pending.terms,
+        results: event.data.results,
+        highlights: event.data.highlights,
+      });
+    });
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      indexedCommitsRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const searchTerms = termsKey ? termsKey.split('\n') : [];
+    if (searchTerms.length === 0) return;
+
+    const worker = workerRef.current;
+    if (!worker) {
+      // No Web Workers (e.g. in tests): search on the main thread
+      const index = buildSearchIndex(commits.map(toSearchDocument));
+      const highlights = new Set<string>();
+      const results = searchTerms.map(term => searchIndex(index, term, highlights));
+      setResponse({ commits, termsKey, terms: searchTerms, results, highlights: Array.from(highlights) });
+      return;
+    }
+
+    // The worker handles messages in order, so the search runs against the new index
+    if (indexedCommitsRef.current !== commits) {
+      indexedCommitsRef.current = commits;
+      const indexRequest: SearchWorkerRequest = { type: 'index', documents: commits.map(toSearchDocument) };
+      worker.postMessage(indexRequest);
+    }
+    const id = (pendingRef.current?.id || 0) + 1;
+    pendingRef.current = { id, commits, terms: searchTerms };
+    const searchRequest: SearchWorkerRequest = { type: 'search', id, terms: searchTerms };
+    worker.postMessage(searchRequest);
+  }, [commits, termsKey]);
+
+  return useMemo(() => {
+    if (!response || response.commits !== commits || response.termsKey !== termsKey) return null;
+
+    const matches = new Map(response.terms.map((term, index) => [term, new Set(response.results[index].shas)]));
+    const scores = new Map<string, number>();
+    response.results.forEach(result => {
+      result.shas.forEach((sha, index) => scores.set(sha, (scores.get(sha) || 0) + result.scores[index]));
+    });
+
+    return {
+      matchText: (commit, value) => matches.get(value)?.has(commit.sha) ?? matchesCommitText(commit, value),
+      scores,
+      highlights: response.highlights,
+    };
+  }, [response, commits, termsKey]);
+}
@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import { CommitDataSource } from '@/lib/data-source';
+
+/** Data source provided by `DataSourceProvider` */
+export const DataSourceContext = createContext<CommitDataSource | null>(null);
+
+export function useDataSource(): CommitDataSource {
+  const dataSource = useContext(DataSourceContext);
+  if (!dataSource) {
+    throw new Error('useDataSource must be used within a DataSourceProvider');
+  }
+  return dataSource;
+}
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useDataSource } from '@/hooks/use-data-source';
+import type { RepoChangeEvent } from '@/lib/data-source';
+
+// Events arriving within this window are applied together
+const FLUSH_DELAY_MS = 300;
+
+interface UseLiveCommitsOptions {
+  enabled?: boolean;
+  /**
+   * Merges events into the loaded commits and returns the SHAs of the commits they add,
+   * e.g. `applyChangeEvents` from `useRepoCommits`
+   */
+  applyChangeEvents: (events: RepoChangeEvent[]) => string[];
+}
+
+/**
+ * Subscribes to new and updated commits and analyses of a repository and merges them
+ * into the loaded timeline. Returns the SHAs of commits that arrived since the last
+ * call to `clearNewCommits`.
+ */
+export function useLiveCommits(repoName: string | null, { enabled = true, applyChangeEvents }: UseLiveCommitsOptions) {
+  const dataSource = useDataSource();
+  const [newCommitShas, setNewCommitShas] = useState<string[]>([]);
+  const applyChangeEventsRef = useRef(applyChangeEvents);
+  applyChangeEventsRef.current = applyChangeEvents;
+
+  useEffect(() => {
+    if (!repoName || !enabled) return;
+
+    let pending: RepoChangeEvent[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      flushTimer = null;
+      const events = pending;
+      pending = [];
+
+      const addedShas = applyChangeEventsRef.current(events);
+      if (addedShas.length > 0) {
+        setNewCommitShas(current => [...current, ...addedShas.filter(sha => !current.includes(sha))]);
+      }
+    };
+
+    const unsubscribe = dataSource.subscribeToRepo(repoName, event => {
+      pending.push(event);
+      if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      if (flushTimer) clearTimeout(flushTimer);
+    };
+  }, [dataSource, repoName, enabled]);
+
+  useEffect(() => {
+    setNewCommitShas([]);
+  }, [repoName]);
+
+  const clearNewCommits = useCallback(() => setNewCommitShas([]), []);
+
+  return { newCommitShas, clearNewCommits };
+}
@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { InfiniteData, useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Commit, CommitType, TimelineFilters } from '@/types';
+import { useDataSource } from '@/hooks/use-data-source';
+import { CommitPage, CommitPageQuery, compareCommitsNewestFirst, RepoChangeEvent } from '@/lib/data-source';
+import { readCachedTimeline, writeCachedTimeline, TIMELINE_STALE_MS } from '@/lib/timeline-cache';
+import { applyRepoChangeEvents, getAddedCommitShas } from '@/utils/analysis-utils';
+
+type CommitPages = InfiniteData<CommitPage, string | null>;
+type ServerFilters = Pick<TimelineFilters, 'types' | 'authors' | 'dateRange'>;
+/** Filters of one cached variant of a timeline */
+export type CommitsVariantQuery = Omit<CommitPageQuery, 'cursor'>;
+
+interface UseRepoCommitsOptions {
+  /** Set to false to hold off fetching, e.g. while the repository is being analyzed */
+  enabled?: boolean;
+  /** Filters pushed down to the data source instead of being applied in the browser */
+  filters?: ServerFilters;
+  /** Only load commits reachable from this branch */
+  branch?: string | null;
+}
+
+const toPageQuery = (filters?: ServerFilters, branch?: string | null): CommitsVariantQuery => ({
+  from: filters?.dateRange.from || null,
+  to: filters?.dateRange.to || null,
+  types: filters?.types.length ? [...filters.types].sort() : undefined,
+  authors: filters?.authors.length ? [...filters.authors].sort() : undefined,
+  branch: branch || null,
+});
+
+const isUnfilteredQuery = (query: CommitsVariantQuery) =>
+  !query.from && !query.to && !query.types && !query.authors && !query.branch;
+
+// Filters as they appear in query keys, with dates as ISO strings
+const toKeyFilters = (query: CommitsVariantQuery) => ({
+  from: query.from?.toISOString() || null,
+  to: query.to?.toISOString() || null,
+  types: query.types || null,
+  authors: query.authors || null,
+  branch: query.branch || null,
+});
+
+const commitsQueryKey = (source: string, repoName: string | null, query: CommitsVariantQuery = {}) =>
+  ['commits', source, repoName, toKeyFilters(query)];
+
+// Reverses `commitsQueryKey` for the filters part of a key
+const queryFromKey = (queryKey: readonly unknown[]): CommitsVariantQuery => {
+  const { from, to, types, authors, branch } = (queryKey[3] || {}) as {
+    from?: string | null;
+    to?: string | null;
+    types?: CommitType[] | null;
+    authors?: string[] | null;
+    branch?: string | null;
+  };
+  return {
+    from: from ? new Date(from) : null,
+    to: to ? new Date(to) : null,
+    types: types || undefined,
+    authors: authors || undefined,
+    branch: branch || null,
+  };
+};
+
+const flattenPages = (data: CommitPages | undefined): Commit[] | undefined =>
+  data?.pages.flatMap(page => page.commits);
+
+/**
+ * Loads the commits of a repository page by page (newest first) through the shared QueryClient.
+ *
+ * The unfiltered timeline is persisted in the IndexedDB timeline cache, which
+ * is read first so the page can render immediately (and offline); the data
+ * source is then queried in the background whenever the cached copy is stale.
+ * Filtered queries start from the unfiltered commits already in memory while
+ * the data source answers; branch queries start empty, since the unfiltered
+ * timeline mixes every branch.
+ */
+export function useRepoCommits(repoName: string | null, { enabled = true, filters, branch }: UseRepoCommitsOptions = {}) {
+  const dataSource = useDataSource();
+  const queryClient = useQueryClient();
+  const pageQuery = toPageQuery(filters, branch);
+  const isUnfiltered = isUnfilteredQuery(pageQuery);
+  const queryKey = commitsQueryKey(dataSource.cacheKey, repoName, pageQuery);
+  const timelineCacheKey = `${dataSource.cacheKey}:${repoName}`;
+  const [checkedCacheKey, setCheckedCacheKey] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const lastPersistedRef = useRef<number>(0);
+  const queryKeyRef = useRef(queryKey);
+  queryKeyRef.current = queryKey;
+
+  useEffect(() => {
+    if (!repoName) return;
+
+    let cancelled = false;
+    const key = commitsQueryKey(dataSource.cacheKey, repoName);
+
+    readCachedTimeline(dataSource.cacheKey, repoName)
+      .then(entry => {
+        if (cancelled) return;
+        setCachedAt(entry?.fetchedAt ?? null);
+        // Seed the query with the cached copy unless something newer is already in memory
+        if (entry && queryClient.getQueryState(key)?.data === undefined) {
+          lastPersistedRef.current = entry.fetchedAt;
+          queryClient.setQueryData<CommitPages>(key, {
+            pages: [{ commits: entry.commits, nextCursor: entry.nextCursor }],
+            pageParams: [null],
+          }, { updatedAt: entry.fetchedAt });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setCheckedCacheKey(`${dataSource.cacheKey}:${repoName}`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataSource, queryClient, repoName]);
+
+  const query = useInfiniteQuery<CommitPage, Error, CommitPages, unknown[], string | null>({
+    queryKey,
+    queryFn: ({ pageParam }) => dataSource.fetchCommitPage(repoName as string, { ...pageQuery, cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+    enabled: !!repoName && enabled && checkedCacheKey === timelineCacheKey,
+    staleTime: TIMELINE_STALE_MS,
+    placeholderData: () => isUnfiltered || pageQuery.branch
+      ? undefined
+      : queryClient.getQueryData<CommitPages>(commitsQueryKey(dataSource.cacheKey, repoName)),
+  });
+
+  // Persist the unfiltered timeline once a fetch has settled
+  useEffect(() => {
+    if (!repoName || !isUnfiltered || !query.data || query.isFetching || query.isPlaceholderData) return;
+    if (query.dataUpdatedAt <= lastPersistedRef.current) return;
+
+    lastPersistedRef.current = query.dataUpdatedAt;
+    const lastPage = query.data.pages[query.data.pages.length - 1];
+    writeCachedTimeline(dataSource.cacheKey, repoName, flattenPages(query.data), lastPage.nextCursor, query.dataUpdatedAt);
+  }, [dataSource, repoName, isUnfiltered, query.data, query.isFetching, query.isPlaceholderData, query.dataUpdatedAt]);
+
+  const commits = useMemo(() => flattenPages(query.data), [query.data]);
+
+  /**
+   * Applies a local change (e.g. merged new commits) to the loaded timeline and the persistent cache.
+   * Every loaded variant of the timeline (filtered, branch or not) is updated from its own commits,
+   * and the updater receives the variant's filters so it can leave out commits that don't belong there.
+   */
+  const updateCommits = useCallback((updater: (commits: Commit[], query: CommitsVariantQuery) => Commit[]) => {
+    if (!repoName) return;
+
+    const updatedAt = Date.now();
+    queryClient.getQueriesData<CommitPages>({ queryKey: ['commits', dataSource.cacheKey, repoName] }).forEach(([key, data]) => {
+      if (!data) return;
+      const updated = updater(flattenPages(data), queryFromKey(key)).sort(compareCommitsNewestFirst);
+      queryClient.setQueryData<CommitPages>(key, {
+        ...data,
+        pages: data.pages.map((page, index) => ({ ...page, commits: index === 0 ? updated : [] })),
+      });
+    });
+
+    const unfiltered = queryClient.getQueryData<CommitPages>(commitsQueryKey(dataSource.cacheKey, repoName));
+    if (unfiltered) {
+      lastPersistedRef.current = updatedAt;
+      writeCachedTimeline(
+        dataSource.cacheKey,
+        repoName,
+        flattenPages(unfiltered),
+        unfiltered.pages[unfiltered.pages.length - 1].nextCursor,
+        updatedAt
+      );
+    }
+  }, [dataSource, queryClient, repoName]);
+
+  /**
+   * Applies realtime change events to every loaded variant of the timeline, each against its own filters.
+   * Returns the SHAs of the commits the events add to the variant this hook shows.
+   */
+  const applyChangeEvents = useCallback((events: RepoChangeEvent[]): string[] => {
+    const key = queryKeyRef.current;
+    const shown = flattenPages(queryClient.getQueryData<CommitPages>(key)) || [];
+    // Filtered variants take commits an analysis makes match from the unfiltered timeline
+    const known = flattenPages(queryClient.getQueryData<CommitPages>(commitsQueryKey(dataSource.cacheKey, repoName))) || [];
+    const addedShas = getAddedCommitShas(shown, events, queryFromKey(key), known);
+    updateCommits((commits, query) => applyRepoChangeEvents(commits, events, query, known));
+    queryClient.invalidateQueries({ queryKey: ['facets', dataSource.cacheKey, repoName] });
+    return addedShas;
+  }, [dataSource, queryClient, repoName, updateCommits]);
+
+  /**
+   * Marks the commits as stale so they are fetched again, e.g. after an analysis job
+   */
+  const revalidate = useCallback(() => {
+    if (!repoName) return Promise.resolve();
+    queryClient.invalidateQueries({ queryKey: ['facets', dataSource.cacheKey, repoName] });
+    return queryClient.invalidateQueries({ queryKey: ['commits', dataSource.cacheKey, repoName] });
+  }, [dataSource, queryClient, repoName]);
+
+  return {
+    ...query,
+    /** Every commit loaded so far, newest first */
+    commits,
+    /** True until the IndexedDB cache has been checked for this repository */
+    isCheckingCache: !!repoName && checkedCacheKey !== timelineCacheKey,
+    /** Epoch milliseconds of the cached copy the page started from, if any */
+    cachedAt: checkedCacheKey === timelineCacheKey ? cachedAt : null,
+    updateCommits,
+    applyChangeEvents,
+    revalidate,
+  };
+}
+
+/**
+ * Counts the commits of each type and author across the whole history of a repository,
+ * under the same filters as `useRepoCommits`. The previous counts stay shown while
+ * new filters are counted.
+ */
+export function useRepoFacets(repoName: string | null, { enabled = true, filters, branch }: UseRepoCommitsOptions = {}) {
+  const dataSource = useDataSource();
+  const facetQuery = toPageQuery(filters, branch);
+
+  return useQuery({
+    queryKey: ['facets', dataSource.cacheKey, repoName, toKeyFilters(facetQuery)],
+    queryFn: () => dataSource.countCommitFacets(repoName as string, facetQuery),
+    enabled: !!repoName && enabled,
+    staleTime: TIMELINE_STALE_MS,
+    // Another repository's counts would name the wrong authors
+    placeholderData: (previous, previousQuery) => previousQuery?.queryKey[2] === repoName ? previous : undefined,
+  });
+}
+
+/**
+ * Lists the branches of a repository
+ */
+export function useRepoBranches(repoName: string | null) {
+  const dataSource = useDataSource();
+
+  return useQuery({
+    queryKey: ['branches', dataSource.cacheKey, repoName],
+    queryFn: () => dataSource.listBranches(repoName as string),
+    enabled: !!repoName,
+    staleTime: TIMELINE_STALE_MS,
+  });
+}
+
+/**
+ * Lists the tags and releases of a repository, oldest first
+ */
+export function useRepoTags(repoName: string | null) {
+  const dataSource = useDataSource();
+
+  return useQuery({
+    queryKey: ['tags', dataSource.cacheKey, repoName],
+    queryFn: () => dataSource.listTags(repoName as string),
+    enabled: !!repoName,
+    staleTime: TIMELINE_STALE_MS,
+  });
+}
+
+/**
+ * Lists every author of a repository, independent of the loaded pages and active filters
+ */
+export function useRepoAuthors(repoName: string | null) {
+  const dataSource = useDataSource();
+
+  return useQuery({
+    queryKey: ['authors', dataSource.cacheKey, repoName],
+    queryFn: () => dataSource.listAuthors(repoName as string),
+    enabled: !!repoName,
+    staleTime: TIMELINE_STALE_MS,
+  });
+}
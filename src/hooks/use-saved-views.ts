@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { SavedView } from '@/types';
+import { useDataSource } from '@/hooks/use-data-source';
+import {
+  readDeletedSavedViewIds,
+  readLocalSavedViews,
+  writeDeletedSavedViewIds,
+  writeLocalSavedViews,
+} from '@/lib/saved-views';
+import {
+  createSavedView,
+  exportSavedViews,
+  mergeSavedViews,
+  normalizeSavedViews,
+  parseSavedViews,
+  SavedViewOptions,
+  toSavedViewQuery,
+} from '@/utils/saved-view-utils';
+
+// Saved views always live in this browser; with `VITE_SAVED_VIEWS=backend` they are shared through the data source too
+const SYNC_WITH_DATA_SOURCE = import.meta.env.VITE_SAVED_VIEWS === 'backend';
+
+const forgetDeletedView = (repoName: string, viewId: string) =>
+  writeDeletedSavedViewIds(repoName, readDeletedSavedViewIds(repoName).filter(id => id !== viewId));
+
+/**
+ * Named filter presets of a repository, stored locally and optionally in the data source.
+ * Changes are written locally right away; syncing them is best effort. Views deleted
+ * locally are remembered until the data source confirms the deletion, so a failed
+ * deletion doesn't bring them back from the remote list.
+ */
+export function useSavedViews(repoName: string | null) {
+  const dataSource = useDataSource();
+  const [state, setState] = useState<{ repoName: string; views: SavedView[]; isSynced: boolean } | null>(null);
+  const isLoaded = !!repoName && state?.repoName === repoName;
+  /** Whether the views include the data source's, i.e. its list loaded or failed to */
+  const isSynced = isLoaded && state.isSynced;
+  const views = isLoaded ? state.views : [];
+
+  useEffect(() => {
+    if (!repoName) return;
+    setState({ repoName, views: readLocalSavedViews(repoName), isSynced: !SYNC_WITH_DATA_SOURCE });
+    if (!SYNC_WITH_DATA_SOURCE) return;
+
+    let cancelled = false;
+    dataSource.listSavedViews(repoName)
+      .then(remoteViews => {
+        if (cancelled) return;
+        const incoming = parseSavedViews(remoteViews, repoName);
+        const deletedIds = new Set(readDeletedSavedViewIds(repoName));
+        const undeleted = incoming.filter(view => deletedIds.has(view.id));
+        // Deletions the data source already applied need no retry
+        writeDeletedSavedViewIds(repoName, undeleted.map(view => view.id));
+        undeleted.forEach(view => {
+          dataSource.deleteSavedView(repoName, view.id)
+            .then(() => forgetDeletedView(repoName, view.id))
+            .catch(error => console.error('Error syncing saved views:', error));
+        });
+
+        setState(current => {
+          if (current?.repoName !== repoName) return current;
+          const merged = mergeSavedViews(current.views, incoming.filter(view => !deletedIds.has(view.id)));
+          writeLocalSavedViews(repoName, merged);
+          return { repoName, views: merged, isSynced: true };
+        });
+      })
+      .catch(error => {
+        console.error('Error loading saved views:', error);
+        if (cancelled) return;
+        setState(current => current?.repoName === repoName ? { ...current, isSynced: true } : current);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataSource, repoName]);
+
+  const update = (nextViews: SavedView[], changed: SavedView[], deletedId?: string) => {
+    if (!repoName) return;
+    const normalized = normalizeSavedViews(nextViews);
+    setState(current => ({ repoName, views: normalized, isSynced: current?.repoName === repoName && current.isSynced }));
+    writeLocalSavedViews(repoName, normalized);
+    if (!SYNC_WITH_DATA_SOURCE) return;
+
+    const changedIds = new Set(changed.map(view => view.id));
+    const deletedIds = readDeletedSavedViewIds(repoName).filter(id => !changedIds.has(id) && id !== deletedId);
+    writeDeletedSavedViewIds(repoName, deletedId ? [...deletedIds, deletedId] : deletedIds);
+
+    const sync = async () => {
+      if (changed.length > 0) await dataSource.upsertSavedViews(repoName, changed);
+      if (deletedId) {
+        await dataSource.deleteSavedView(repoName, deletedId);
+        forgetDeletedView(repoName, deletedId);
+      }
+    };
+    sync().catch(error => console.error('Error syncing saved views:', error));
+  };
+
+  /**
+   * Saves options under a name, replacing the options of a view with the same name
+   */
+  const saveView = (name: string, options: SavedViewOptions): SavedView | null => {
+    if (!repoName) return null;
+    const existing = views.find(view => view.name.toLowerCase() === name.trim().toLowerCase());
+    const saved = existing
+      ? { ...existing, query: toSavedViewQuery(options), updated_at: new Date().toISOString() }
+      : createSavedView(repoName, name, options);
+    update([...views.filter(view => view !== existing), saved], [saved]);
+    return saved;
+  };
+
+  const renameView = (viewId: string, name: string) => {
+    const view = views.find(view => view.id === viewId);
+    if (!view || !name.trim()) return;
+    const renamed = { ...view, name: name.trim(), updated_at: new Date().toISOString() };
+    update(views.map(view => view.id === viewId ? renamed : view), [renamed]);
+  };
+
+  const deleteView = (viewId: string) => {
+    update(views.filter(view => view.id !== viewId), [], viewId);
+  };
+
+  /**
+   * Makes a view the repository's default, or clears the default with null
+   */
+  const setDefaultView = (viewId: string | null) => {
+    const now = new Date().toISOString();
+    const changed = views
+      .filter(view => view.is_default !== (view.id === viewId))
+      .map(view => ({ ...view, is_default: view.id === viewId, updated_at: now }));
+    update(mergeSavedViews(views, changed, true), changed);
+  };
+
+  /**
+   * Adds views from JSON written by `exportViews`, replacing views with the same id.
+   * Returns the number of imported views; throws when the JSON isn't a list of views.
+   */
+  const importViews = (json: string): number => {
+    if (!repoName) return 0;
+    const imported = parseSavedViews(JSON.parse(json), repoName);
+    update(mergeSavedViews(views, imported, true), imported);
+    return imported.length;
+  };
+
+  const exportViews = (): string => exportSavedViews(repoName || '', views);
+
+  return { views, isLoaded, isSynced, saveView, renameView, deleteView, setDefaultView, importViews, exportViews };
+}
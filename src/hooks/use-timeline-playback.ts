@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Commit, Tag } from '@/types';
+import { lowerBound } from '@/utils/timeline-utils';
+import { getCommitTimesByType, getPlaybackStops, getPlaybackTally, PlaybackStop } from '@/utils/playback-utils';
+
+// Time a full replay of the history takes at 1× speed
+const BASE_DURATION_MS = 60 * 1000;
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4, 8];
+
+/**
+ * Replays the history of a repository: a cursor sweeps from the first to the
+ * last commit, pausing by itself on milestones and tags. The cursor is null
+ * when playback is off.
+ */
+export function useTimelinePlayback(commits: Commit[], tags: Tag[]) {
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [pausedAt, setPausedAt] = useState<PlaybackStop | null>(null);
+
+  const range = useMemo(() => {
+    if (commits.length === 0) return { start: 0, end: 0 };
+    return commits.reduce(
+      (acc, commit) => {
+        const time = new Date(commit.date).getTime();
+        return { start: Math.min(acc.start, time), end: Math.max(acc.end, time) };
+      },
+      { start: Infinity, end: -Infinity }
+    );
+  }, [commits]);
+  const stops = useMemo(() => getPlaybackStops(commits, tags), [commits, tags]);
+  const stopTimes = useMemo(() => stops.map(stop => stop.time), [stops]);
+  const timesByType = useMemo(() => getCommitTimesByType(commits), [commits]);
+  const tally = useMemo(
+    () => getPlaybackTally(timesByType, cursor ?? range.end),
+    [timesByType, cursor, range.end]
+  );
+
+  // The animation loop reads the latest cursor without restarting every frame
+  const cursorRef = useRef(cursor);
+  cursorRef.current = cursor;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame = 0;
+    let previousTime = performance.now();
+    const msPerMs = (Math.max(1, range.end - range.start) / BASE_DURATION_MS) * speed;
+
+    const tick = (now: number) => {
+      const current = cursorRef.current ?? range.start;
+      let next = current + (now - previousTime) * msPerMs;
+      previousTime = now;
+
+      // Stop on the first milestone or tag passed during this frame
+      const stopIndex = lowerBound(stopTimes, current + 1);
+      let finished = false;
+      if (stopIndex < stops.length && stopTimes[stopIndex] <= next) {
+        next = stopTimes[stopIndex];
+        setPausedAt(stops[stopIndex]);
+        finished = true;
+      } else if (next >= range.end) {
+        next = range.end;
+        finished = true;
+      }
+
+      cursorRef.current = next;
+      setCursor(next);
+      if (finished) {
+        setIsPlaying(false);
+      } else {
+        frame = requestAnimationFrame(tick);
+      }
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, range, stops, stopTimes]);
+
+  const play = useCallback(() => {
+    setPausedAt(null);
+    // Start over once the end was reached
+    if (cursorRef.current === null || cursorRef.current >= range.end) {
+      cursorRef.current = range.start;
+      setCursor(range.start);
+    }
+    setIsPlaying(true);
+  }, [range]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const seek = useCallback((time: number) => {
+    setPausedAt(null);
+    setCursor(Math.min(range.end, Math.max(range.start, time)));
+  }, [range]);
+
+  const stop = useCallback(() => {
+    setIsPlaying(false);
+    setPausedAt(null);
+    setCursor(null);
+  }, []);
+
+  return { cursor, isPlaying, speed, setSpeed, pausedAt, range, stops, tally, play, pause, seek, stop };
+}
@@ -0,0 +1,48 @@
+import { Commit, CommitAnalysis, CommitType } from '@/types';
+
+const TYPE_PATTERNS: [CommitType, RegExp][] = [
+  ['MILESTONE', /\b(release|v\d+\.\d+(\.\d+)?|launch|initial commit)\b/i],
+  ['WARNING', /\b(security|vulnerab\w*|deprecat\w*|revert|hotfix|warn\w*|cve)\b/i],
+  ['BUG', /\b(fix(es|ed)?|bug|issue|crash|error|broken)\b/i],
+  ['FEATURE', /\b(feat(ure)?|add(s|ed)?|implement\w*|introduce\w*|support)\b/i],
+];
+
+/**
+ * Guesses the commit type from its message using keyword rules.
+ * Conventional commit prefixes (`feat:`, `fix:`, ...) take precedence.
+ */
+export const classifyCommit = (commit: Pick<Commit, 'message' | 'description'>): CommitType => {
+  const prefix = commit.message.match(/^(\w+)(\(.+\))?!?:/)?.[1]?.toLowerCase();
+  switch (prefix) {
+    case 'feat':
+      return 'FEATURE';
+    case 'fix':
+      return 'BUG';
+    case 'chore':
+    case 'docs':
+    case 'style':
+    case 'refactor':
+    case 'test':
+    case 'build':
+    case 'ci':
+      return 'CHORE';
+  }
+
+  const text = `${commit.message}\n${commit.description || ''}`;
+  const match = TYPE_PATTERNS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : 'CHORE';
+};
+
+/**
+ * Produces a keyword-based analysis for a commit, used when no LLM backend is available
+ */
+export const analyzeCommit = (commit: Commit): CommitAnalysis => ({
+  id: `heuristic-${commit.sha}`,
+  created_at: new Date().toISOString(),
+  repo_name: commit.repo_name,
+  title: commit.message,
+  idea: commit.description?.split('\n')[0] || commit.message,
+  description: commit.description || commit.message,
+  commit_sha: commit.sha,
+  type: classifyCommit(commit),
+});
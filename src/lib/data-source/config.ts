@@ -0,0 +1,59 @@
+import { DEFAULT_SUPABASE_ANON_KEY, DEFAULT_SUPABASE_URL } from '@/lib/supabase';
+import { createMemoryDataSource } from './memory-source';
+import { createRestDataSource } from './rest-source';
+import { createSupabaseDataSource } from './supabase-source';
+import { CommitDataSource, DataSourceConfig } from './types';
+
+/**
+ * Environment variables understood by `readDataSourceConfig`.
+ *
+ * In the browser these come from `import.meta.env`; Node scripts can pass `process.env`.
+ */
+export interface DataSourceEnv {
+  VITE_DATA_SOURCE?: string;
+  VITE_SUPABASE_URL?: string;
+  VITE_SUPABASE_ANON_KEY?: string;
+  VITE_API_BASE_URL?: string;
+  VITE_FIXTURE_URL?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Builds a data source configuration from environment variables.
+ * Defaults to the hosted Supabase project when nothing is configured.
+ */
+export const readDataSourceConfig = (env: DataSourceEnv): DataSourceConfig => {
+  const kind = (env.VITE_DATA_SOURCE || 'supabase').toLowerCase();
+
+  switch (kind) {
+    case 'rest':
+      if (!env.VITE_API_BASE_URL) {
+        throw new Error('VITE_API_BASE_URL is required when VITE_DATA_SOURCE=rest');
+      }
+      return { kind: 'rest', baseUrl: env.VITE_API_BASE_URL };
+    case 'memory':
+      return { kind: 'memory', fixtureUrl: env.VITE_FIXTURE_URL || undefined };
+    case 'supabase':
+      return {
+        kind: 'supabase',
+        url: env.VITE_SUPABASE_URL || DEFAULT_SUPABASE_URL,
+        anonKey: env.VITE_SUPABASE_ANON_KEY || DEFAULT_SUPABASE_ANON_KEY,
+      };
+    default:
+      throw new Error(`Unknown data source "${env.VITE_DATA_SOURCE}"`);
+  }
+};
+
+/**
+ * Creates the data source implementation matching the configuration
+ */
+export const createDataSource = (config: DataSourceConfig): CommitDataSource => {
+  switch (config.kind) {
+    case 'rest':
+      return createRestDataSource(config);
+    case 'memory':
+      return createMemoryDataSource(config);
+    case 'supabase':
+      return createSupabaseDataSource(config);
+  }
+};
@@ -0,0 +1,32 @@
+import { Commit } from '@/types';
+
+/**
+ * Position of a commit in the newest-first ordering used by `fetchCommitPage`.
+ * Commits sharing a date are ordered by SHA so the cursor is always unique.
+ */
+export interface CommitCursor {
+  date: string;
+  sha: string;
+}
+
+export const encodeCommitCursor = (commit: Pick<Commit, 'date' | 'sha'>): string =>
+  btoa(JSON.stringify({ date: commit.date, sha: commit.sha }));
+
+export const decodeCommitCursor = (cursor: string): CommitCursor => {
+  try {
+    const { date, sha } = JSON.parse(atob(cursor));
+    if (typeof date !== 'string' || typeof sha !== 'string') throw new Error('Missing fields');
+    return { date, sha };
+  } catch (error) {
+    throw new Error(`Invalid commit cursor: ${cursor}`);
+  }
+};
+
+/**
+ * Sorts commits newest first, breaking ties by SHA (descending)
+ */
+export const compareCommitsNewestFirst = (a: Pick<Commit, 'date' | 'sha'>, b: Pick<Commit, 'date' | 'sha'>): number => {
+  const byDate = new Date(b.date).getTime() - new Date(a.date).getTime();
+  if (byDate !== 0) return byDate;
+  return a.sha < b.sha ? 1 : a.sha > b.sha ? -1 : 0;
+};
@@ -0,0 +1,261 @@
+import { Commit, Tag } from '@/types';
+
+/**
+ * Example timeline shown when no repository is selected or when `example=true`
+ */
+export const exampleCommits: Commit[] = [
+  {
+    sha: '1',
+    created_at: '2023-05-10T10:00:00Z',
+    repo_name: 'owner/repo',
+    author: 'developer1',
+    author_url: 'https://github.com/developer1',
+    author_email: 'dev1@example.com',
+    date: '2023-05-10T10:00:00Z',
+    message: 'Initial commit',
+    url: 'https://github.com/owner/repo/commit/1',
+    description: 'Set up project structure and dependencies',
+    parent_shas: [],
+    files: ['package.json', 'README.md', 'src/main.tsx'],
+    commit_analises: [
+      {
+        id: 'a1',
+        created_at: '2023-05-10T11:00:00Z',
+        repo_name: 'owner/repo',
+        title: 'Project Initialization',
+        idea: 'Setting up the foundational structure for the project',
+        description: 'This commit establishes the basic project structure, adding essential configuration files and dependencies needed to start development.',
+        commit_sha: '1',
+        type: 'MILESTONE'
+      }
+    ]
+  },
+  {
+    sha: '2',
+    created_at: '2023-05-12T10:00:00Z',
+    repo_name: 'owner/repo',
+    author: 'developer2',
+    author_url: 'https://github.com/developer2',
+    author_email: 'dev2@example.com',
+    date: '2023-05-12T10:00:00Z',
+    message: 'Add authentication module',
+    url: 'https://github.com/owner/repo/commit/2',
+    description: 'Implement user authentication with JWT',
+    parent_shas: ['1'],
+    files: ['src/auth/login.ts', 'src/auth/session.ts'],
+    commit_analises: [
+      {
+        id: 'a2',
+        created_at: '2023-05-12T11:00:00Z',
+        repo_name: 'owner/repo',
+        title: 'User Authentication System',
+        idea: 'Implementing secure user authentication',
+        description: 'This commit adds a complete authentication system using JWT tokens for secure user sessions. It includes login, registration, and password recovery functionality.',
+        commit_sha: '2',
+        type: 'FEATURE'
+      }
+    ]
+  },
+  {
+    sha: '3',
+    created_at: '2023-05-15T10:00:00Z',
+    repo_name: 'owner/repo',
+    author: 'developer1',
+    author_url: 'https://github.com/developer1',
+    author_email: 'dev1@example.com',
+    date: '2023-05-15T10:00:00Z',
+    message: 'Fix login error handling',
+    url: 'https://github.com/owner/repo/commit/3',
+    description: 'Improve error messages on login failure',
+    parent_shas: ['2'],
+    files: ['src/auth/login.ts'],
+    commit_analises: [
+      {
+        id: 'a3',
+        created_at: '2023-05-15T11:00:00Z',
+        repo_name: 'owner/repo',
+        title: 'Login Error Handling Improvement',
+        idea: 'Enhancing user experience by providing clearer error messages',
+        description: 'This commit improves the error handling during login attempts. It provides more specific error messages to help users understand why their login failed (invalid credentials, account locked, etc).',
+        commit_sha: '3',
+        type: 'BUG'
+      }
+    ]
+  },
+  {
+    sha: '4',
+    created_at: '2023-05-20T10:00:00Z',
+    repo_name: 'owner/repo',
+    author: 'developer3',
+    author_url: 'https://github.com/developer3',
+    author_email: 'dev3@example.com',
+    date: '2023-05-20T10:00:00Z',
+    message: 'Add user profile page',
+    url: 'https://github.com/owner/repo/commit/4',
+    description: 'Create user profile page with edit functionality',
+    parent_shas: ['3'],
+    files: ['src/pages/Profile.tsx', 'src/api/users.ts'],
+    commit_analises: [
+      {
+        id: 'a4',
+        created_at: '2023-05-20T11:00:00Z',
+        repo_name: 'owner/repo',
+        title: 'User Profile Page Implementation',
+        idea: 'Creating a comprehensive user profile management interface',
+        description: 'This commit adds a complete user profile page where users can view and edit their personal information, including profile picture, contact details, and preferences.',
+        commit_sha: '4',
+        type: 'FEATURE'
+      }
+    ]
+  },
+  {
+    sha: '5',
+    created_at: '2023-05-25T10:00:00Z',
+    repo_name: 'owner/repo',
+    author: 'developer2',
+    author_url: 'https://github.com/developer2',
+    author_email: 'dev2@example.com',
+    date: '2023-05-25T10:00:00Z',
+    message: 'Update dependencies',
+    url: 'https://github.com/owner/repo/commit/5',
+    description: 'Update all npm packages to latest versions',
+    parent_shas: ['4'],
+    files: ['package.json', 'package-lock.json'],
+    commit_analises: [
+      {
+        id: 'a5',
+        created_at: '2023-05-25T11:00:00Z',
+        repo_name: 'owner/repo',
+        title: 'Dependency Update',
+        idea: 'Maintaining project health by updating dependencies',
+        description: 'This commit updates all npm packages to their latest versions to ensure the project has the latest features, performance improvements, and security patches.',
+        commit_sha: '5',
+        type: 'CHORE'
+      }
+    ]
+  },
+  {
+    sha: '6',
+    created_at: '2023-06-01T10:00:00Z',
+    repo_name: 'owner/repo',
+    author: 'developer1',
+    author_url: 'https://github.com/developer1',
+    author_email: 'dev1@example.com',
+    date: '2023-06-01T10:00:00Z',
+    message: 'Implement password strength checker',
+    url: 'https://github.com/owner/repo/commit/6',
+    description: 'Add functionality to check password strength during registration',
+    parent_shas: ['4'],
+    files: ['src/auth/password-strength.ts'],
+    commit_analises: [
+      {
+        id: 'a6',
+        created_at: '2023-06-01T11:00:00Z',
+        repo_name: 'owner/repo',
+        title: 'Password Strength Validation',
+        idea: 'Enhancing security by enforcing strong passwords',
+        description: 'This commit adds a password strength checker during user registration to enforce strong password policies. It provides visual feedback to users about their password strength and specific suggestions for improvement.',
+        commit_sha: '6',
+        type: 'FEATURE'
+      }
+    ]
+  },
+  {
+    sha: '7',
+    created_at: '2023-06-05T10:00:00Z',
+    repo_name: 'owner/repo',
+    author: 'developer3',
+    author_url: 'https://github.com/developer3',
+    author_email: 'dev3@example.com',
+    date: '2023-06-05T10:00:00Z',
+    message: 'Fix potential XSS vulnerability',
+    url: 'https://github.com/owner/repo/commit/7',
+    description: 'Address XSS vulnerability in user input handling',
+    parent_shas: ['5'],
+    files: ['src/pages/Profile.tsx', 'src/utils/sanitize.ts'],
+    commit_analises: [
+      {
+        id: 'a7',
+        created_at: '2023-06-05T11:00:00Z',
+        repo_name: 'owner/repo',
+        title: 'XSS Vulnerability Fix',
+        idea: 'Addressing a critical security vulnerability',
+        description: 'This commit fixes a potential Cross-Site Scripting (XSS) vulnerability in the application by properly sanitizing user input and implementing appropriate content security policies.',
+        commit_sha: '7',
+        type: 'WARNING'
+      }
+    ]
+  },
+  {
+    sha: '8',
+    created_at: '2023-06-10T10:00:00Z',
+    repo_name: 'owner/repo',
+    author: 'developer2',
+    author_url: 'https://github.com/developer2',
+    author_email: 'dev2@example.com',
+    date: '2023-06-10T10:00:00Z',
+    message: 'Improve application performance',
+    url: 'https://github.com/owner/repo/commit/8',
+    description: 'Optimize database queries and implement caching',
+    parent_shas: ['7', '6'],
+    files: ['src/pages/Profile.tsx', 'vite.config.ts'],
+    commit_analises: [
+      {
+        id: 'a8',
+        created_at: '2023-06-10T11:00:00Z',
+        repo_name: 'owner/repo',
+        title: 'Performance Optimization',
+        idea: 'Enhancing application speed and responsiveness',
+        description: 'This commit significantly improves application performance by optimizing database queries, implementing a robust caching strategy, and reducing unnecessary computations in critical paths.',
+        commit_sha: '8',
+        type: 'FEATURE'
+      }
+    ]
+  },
+  {
+    sha: '9',
+    created_at: '2023-06-15T10:00:00Z',
+    repo_name: 'owner/repo',
+    author: 'developer1',
+    author_url: 'https://github.com/developer1',
+    author_email: 'dev1@example.com',
+    date: '2023-06-15T10:00:00Z',
+    message: 'Release v1.0.0',
+    url: 'https://github.com/owner/repo/commit/9',
+    description: 'Prepare for initial production release',
+    parent_shas: ['8'],
+    files: ['package.json', 'CHANGELOG.md'],
+    commit_analises: [
+      {
+        id: 'a9',
+        created_at: '2023-06-15T11:00:00Z',
+        repo_name: 'owner/repo',
+        title: 'Version 1.0.0 Release',
+        idea: 'First stable production release of the application',
+        description: 'This commit marks the first production-ready release (v1.0.0) of the application. It includes final version bumps, documentation updates, and release notes for users.',
+        commit_sha: '9',
+        type: 'MILESTONE'
+      }
+    ]
+  }
+];
+
+/**
+ * Releases of the example timeline
+ */
+export const exampleTags: Tag[] = [
+  {
+    repo_name: 'owner/repo',
+    name: 'v0.1.0',
+    sha: '4',
+    date: '2023-05-20T10:00:00Z',
+    message: 'First preview with authentication and user profiles',
+  },
+  {
+    repo_name: 'owner/repo',
+    name: 'v1.0.0',
+    sha: '9',
+    date: '2023-06-15T10:00:00Z',
+    message: 'First stable release',
+  },
+];
@@ -0,0 +1,9 @@
+export * from './types';
+export { createDataSource, readDataSourceConfig } from './config';
+export type { DataSourceEnv } from './config';
+export { createSupabaseDataSource } from './supabase-source';
+export { createRestDataSource } from './rest-source';
+export { createMemoryDataSource } from './memory-source';
+export { exampleCommits, exampleTags } from './example-commits';
+export { encodeCommitCursor, decodeCommitCursor, compareCommitsNewestFirst } from './cursor';
+export { countCommitFacets, matchesCommitPageQuery } from './page-query';
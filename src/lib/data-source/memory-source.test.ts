@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Commit } from '@/types';
+import { createMemoryDataSource } from '@/lib/data-source/memory-source';
+
+const createCommit = (sha: string, day: number, message: string): Commit => ({
+  sha,
+  created_at: '2026-01-01T00:00:00Z',
+  repo_name: 'acme/api',
+  author: 'Ada',
+  author_url: '',
+  author_email: 'ada@example.com',
+  date: new Date(Date.UTC(2026, 0, day)).toISOString(),
+  message,
+  url: '',
+  description: '',
+});
+
+describe('memory data source analysis', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('analyzes commits that are replaced while the job runs', async () => {
+    const commits = Array.from({ length: 25 }, (_, index) => createCommit(`sha-${index}`, index + 1, 'Add feature'));
+    const dataSource = createMemoryDataSource(commits);
+
+    const job = await dataSource.triggerAnalysis('acme/api', 'https://github.com/acme/api');
+    await vi.advanceTimersByTimeAsync(500);
+    await dataSource.upsertCommits('acme/api', [createCommit('sha-24', 25, 'Fix crash')]);
+    await vi.runAllTimersAsync();
+
+    expect((await dataSource.getAnalysisJob(job.id))?.status).toBe('succeeded');
+    const analyzed = await dataSource.fetchCommitsForRepo('acme/api');
+    expect(analyzed).toHaveLength(25);
+    expect(analyzed.every(commit => commit.commit_analyses?.length === 1)).toBe(true);
+    expect(analyzed.find(commit => commit.sha === 'sha-24')?.message).toBe('Fix crash');
+  });
+});
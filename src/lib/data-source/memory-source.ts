@@ -0,0 +1,306 @@
+import { AnalysisHighWaterMark, AnalysisJob, Commit, SavedView, Tag } from '@/types';
+import { analyzeCommit } from '@/lib/analysis/heuristic-analyzer';
+import { getHighWaterMark, needsAnalysis } from '@/utils/analysis-utils';
+import {
+  CommitDataSource,
+  CommitFacetCounts,
+  CommitFacetQuery,
+  CommitPage,
+  CommitPageQuery,
+  DEFAULT_COMMIT_PAGE_SIZE,
+  FetchCommitsOptions,
+  MemoryDataSourceConfig,
+  RepoChangeEvent,
+  RepoChangeListener,
+  TriggerAnalysisOptions,
+} from './types';
+import { compareCommitsNewestFirst, decodeCommitCursor, encodeCommitCursor } from './cursor';
+import { countCommitFacets as countFacets, matchesCommitPageQuery } from './page-query';
+import { exampleCommits, exampleTags } from './example-commits';
+
+// Delay between progress updates of a simulated analysis job
+const ANALYSIS_STEP_MS = 150;
+const ANALYSIS_BATCH_SIZE = 10;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Keeps commits in memory, seeded from a JSON fixture or, when none is
+ * configured, from the bundled example commits.
+ *
+ * Analysis jobs run in the browser: commits without an analysis are classified
+ * with the keyword-based heuristic analyzer. Each repository's high-water mark
+ * is remembered so incremental jobs only look at newer commits.
+ *
+ * Useful for local development, demos and tests where no backend is available.
+ */
+export const createMemoryDataSource = (
+  config: MemoryDataSourceConfig | Commit[] = { kind: 'memory' }
+): CommitDataSource => {
+  const commitsByRepo = new Map<string, Commit[]>();
+  const tagsByRepo = new Map<string, Tag[]>();
+  const savedViewsByRepo = new Map<string, SavedView[]>();
+  const jobs = new Map<string, AnalysisJob>();
+  const highWaterMarks = new Map<string, AnalysisHighWaterMark | null>();
+  const listeners = new Map<string, Set<RepoChangeListener>>();
+  let fixtureLoaded: Promise<void> | null = null;
+  let nextJobId = 1;
+
+  const emit = (repoName: string, event: RepoChangeEvent) => {
+    listeners.get(repoName)?.forEach(listener => listener(event));
+  };
+
+  const addCommits = (commits: Commit[]) => {
+    commits.forEach(commit => {
+      const repoCommits = commitsByRepo.get(commit.repo_name) || [];
+      const existingIndex = repoCommits.findIndex(c => c.sha === commit.sha);
+      if (existingIndex >= 0) {
+        repoCommits[existingIndex] = commit;
+      } else {
+        repoCommits.push(commit);
+      }
+      commitsByRepo.set(commit.repo_name, repoCommits);
+    });
+  };
+
+  const addTags = (repoName: string, tags: Tag[]) => {
+    const byName = new Map((tagsByRepo.get(repoName) || []).map(tag => [tag.name, tag]));
+    tags.forEach(tag => byName.set(tag.name, { ...tag, repo_name: repoName }));
+    tagsByRepo.set(
+      repoName,
+      Array.from(byName.values()).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    );
+  };
+
+  if (Array.isArray(config)) {
+    addCommits(config);
+  } else if (!config.fixtureUrl) {
+    addCommits(exampleCommits);
+    addTags(exampleTags[0].repo_name, exampleTags);
+  }
+
+  const ensureLoaded = (): Promise<void> => {
+    if (Array.isArray(config) || !config.fixtureUrl) return Promise.resolve();
+
+    if (!fixtureLoaded) {
+      const fixtureUrl = config.fixtureUrl;
+      fixtureLoaded = (async () => {
+        console.log('Loading commit fixture:', fixtureUrl);
+        const response = await fetch(fixtureUrl);
+        if (!response.ok) {
+          throw new Error(`Failed to load fixture ${fixtureUrl}: ${response.status}`);
+        }
+        addCommits((await response.json()) as Commit[]);
+      })();
+    }
+
+    return fixtureLoaded;
+  };
+
+  const fetchCommitsForRepo = async (repoName: string, options: FetchCommitsOptions = {}): Promise<Commit[]> => {
+    await ensureLoaded();
+    const since = options.since ? new Date(options.since).getTime() : null;
+    return (commitsByRepo.get(repoName) || []).filter(commit => {
+      if (since !== null && new Date(commit.date).getTime() <= since) return false;
+      return !options.ref || !!commit.refs?.includes(options.ref);
+    });
+  };
+
+  const fetchCommitPage = async (repoName: string, query: CommitPageQuery = {}): Promise<CommitPage> => {
+    await ensureLoaded();
+    const limit = query.limit || DEFAULT_COMMIT_PAGE_SIZE;
+    const cursor = query.cursor ? decodeCommitCursor(query.cursor) : null;
+
+    const matching = (commitsByRepo.get(repoName) || [])
+      .filter(commit => matchesCommitPageQuery(commit, query) && (!cursor || compareCommitsNewestFirst(commit, cursor) > 0))
+      .sort(compareCommitsNewestFirst);
+
+    const page = matching.slice(0, limit);
+    return {
+      commits: page,
+      nextCursor: matching.length > limit ? encodeCommitCursor(page[page.length - 1]) : null,
+    };
+  };
+
+  const listAuthors = async (repoName: string): Promise<string[]> => {
+    await ensureLoaded();
+    return Array.from(new Set((commitsByRepo.get(repoName) || []).map(commit => commit.author))).sort();
+  };
+
+  const countCommitFacets = async (repoName: string, query: CommitFacetQuery = {}): Promise<CommitFacetCounts> => {
+    await ensureLoaded();
+    return countFacets(commitsByRepo.get(repoName) || [], query);
+  };
+
+  const listBranches = async (repoName: string): Promise<string[]> => {
+    await ensureLoaded();
+    return Array.from(new Set((commitsByRepo.get(repoName) || []).flatMap(commit => commit.refs || []))).sort();
+  };
+
+  const listTags = async (repoName: string): Promise<Tag[]> => {
+    await ensureLoaded();
+    return [...(tagsByRepo.get(repoName) || [])];
+  };
+
+  const checkRepoExists = async (repoName: string): Promise<boolean> => {
+    await ensureLoaded();
+    return (commitsByRepo.get(repoName)?.length || 0) > 0;
+  };
+
+  const listRepos = async (): Promise<string[]> => {
+    await ensureLoaded();
+    return Array.from(commitsByRepo.keys());
+  };
+
+  const upsertCommits = async (repoName: string, commits: Commit[]): Promise<void> => {
+    await ensureLoaded();
+    const repoCommits = commits.map(commit => ({ ...commit, repo_name: repoName }));
+    addCommits(repoCommits);
+    repoCommits.forEach(commit => emit(repoName, { kind: 'commit', commit }));
+  };
+
+  const upsertTags = async (repoName: string, tags: Tag[]): Promise<void> => {
+    await ensureLoaded();
+    addTags(repoName, tags);
+  };
+
+  const updateJob = (jobId: string, changes: Partial<AnalysisJob>) => {
+    const job = jobs.get(jobId);
+    if (!job) return;
+    jobs.set(jobId, { ...job, ...changes, updated_at: new Date().toISOString() });
+  };
+
+  const runAnalysisJob = async (jobId: string, repoName: string, since: AnalysisHighWaterMark | null) => {
+    await delay(ANALYSIS_STEP_MS);
+    updateJob(jobId, { status: 'running' });
+
+    const repoCommits = commitsByRepo.get(repoName) || [];
+    if (repoCommits.length === 0) {
+      updateJob(jobId, {
+        status: 'failed',
+        error: `No commits have been ingested for ${repoName}. Run "npm run ingest:git" first.`,
+      });
+      return;
+    }
+
+    const sinceTime = since ? new Date(since.date).getTime() : null;
+    const isFetched = (commit: Commit) => sinceTime === null || new Date(commit.date).getTime() > sinceTime;
+    const fetched = repoCommits.filter(isFetched);
+    // Positions stay valid during the run, since upserts replace commits in place or append them
+    const pendingIndexes = repoCommits.flatMap((commit, index) => isFetched(commit) && needsAnalysis(commit) ? [index] : []);
+
+    updateJob(jobId, { commits_total: fetched.length });
+
+    for (let i = 0; i < fetched.length; i += ANALYSIS_BATCH_SIZE) {
+      await delay(ANALYSIS_STEP_MS);
+      updateJob(jobId, { commits_fetched: Math.min(i + ANALYSIS_BATCH_SIZE, fetched.length) });
+    }
+
+    // Commits that already have an analysis count as done without being re-analyzed
+    let analyzed = fetched.length - pendingIndexes.length;
+    updateJob(jobId, { commits_analyzed: analyzed });
+
+    for (const index of pendingIndexes) {
+      // Read the commit again, an upsert may have replaced it while earlier batches were analyzed
+      const commit = repoCommits[index];
+      const analysis = analyzeCommit(commit);
+      repoCommits[index] = { ...commit, commit_analyses: [analysis] };
+      emit(repoName, { kind: 'analysis', analysis });
+
+      analyzed++;
+      if (analyzed % ANALYSIS_BATCH_SIZE === 0 || analyzed === fetched.length) {
+        await delay(ANALYSIS_STEP_MS);
+        updateJob(jobId, { commits_analyzed: analyzed });
+      }
+    }
+
+    highWaterMarks.set(repoName, getHighWaterMark(repoCommits));
+    updateJob(jobId, { status: 'succeeded' });
+  };
+
+  const triggerAnalysis = async (
+    repoName: string,
+    repoUrl: string,
+    options: TriggerAnalysisOptions = {}
+  ): Promise<AnalysisJob> => {
+    await ensureLoaded();
+    console.log('Starting in-memory analysis for repo:', repoName, options);
+
+    // Before the first job of this session, the newest analyzed commit marks how far analysis got
+    const since = options.incremental
+      ? highWaterMarks.get(repoName) || getHighWaterMark((commitsByRepo.get(repoName) || []).filter(commit => !needsAnalysis(commit)))
+      : null;
+    const now = new Date().toISOString();
+    const job: AnalysisJob = {
+      id: `memory-job-${nextJobId++}`,
+      created_at: now,
+      updated_at: now,
+      repo_name: repoName,
+      repo_url: repoUrl,
+      status: 'queued',
+      commits_fetched: 0,
+      commits_analyzed: 0,
+      commits_total: null,
+      error: null,
+      incremental: !!options.incremental,
+      since_sha: since?.sha || null,
+      since_date: since?.date || null,
+    };
+    jobs.set(job.id, job);
+
+    runAnalysisJob(job.id, repoName, since).catch(error => {
+      console.error('In-memory analysis failed:', error);
+      updateJob(job.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    });
+
+    return { ...job };
+  };
+
+  const getAnalysisJob = async (jobId: string): Promise<AnalysisJob | null> => {
+    const job = jobs.get(jobId);
+    return job ? { ...job } : null;
+  };
+
+  const listSavedViews = async (repoName: string): Promise<SavedView[]> => [...(savedViewsByRepo.get(repoName) || [])];
+
+  const upsertSavedViews = async (repoName: string, views: SavedView[]): Promise<void> => {
+    const byId = new Map((savedViewsByRepo.get(repoName) || []).map(view => [view.id, view]));
+    views.forEach(view => byId.set(view.id, { ...view, repo_name: repoName }));
+    savedViewsByRepo.set(repoName, Array.from(byId.values()));
+  };
+
+  const deleteSavedView = async (repoName: string, viewId: string): Promise<void> => {
+    savedViewsByRepo.set(repoName, (savedViewsByRepo.get(repoName) || []).filter(view => view.id !== viewId));
+  };
+
+  const subscribeToRepo = (repoName: string, listener: RepoChangeListener): () => void => {
+    const repoListeners = listeners.get(repoName) || new Set<RepoChangeListener>();
+    repoListeners.add(listener);
+    listeners.set(repoName, repoListeners);
+
+    return () => {
+      repoListeners.delete(listener);
+    };
+  };
+
+  return {
+    kind: 'memory',
+    cacheKey: Array.isArray(config) || !config.fixtureUrl ? 'memory' : `memory:${config.fixtureUrl}`,
+    fetchCommitsForRepo,
+    fetchCommitPage,
+    listAuthors,
+    countCommitFacets,
+    listBranches,
+    listTags,
+    checkRepoExists,
+    listRepos,
+    upsertCommits,
+    upsertTags,
+    triggerAnalysis,
+    getAnalysisJob,
+    listSavedViews,
+    upsertSavedViews,
+    deleteSavedView,
+    subscribeToRepo,
+  };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Commit, CommitType } from '@/types';
+import { countCommitFacets } from '@/lib/data-source/page-query';
+
+const createCommit = (sha: string, author: string, date: string, types: CommitType[]): Commit => ({
+  sha,
+  created_at: date,
+  repo_name: 'acme/widgets',
+  author,
+  author_url: '',
+  author_email: '',
+  date,
+  message: `Commit ${sha}`,
+  url: '',
+  description: '',
+  commit_analyses: types.map(type => ({
+    id: `${sha}-${type}`,
+    created_at: date,
+    repo_name: 'acme/widgets',
+    title: '',
+    idea: '',
+    description: '',
+    commit_sha: sha,
+    type,
+  })),
+});
+
+const commits = [
+  createCommit('a', 'Alice', '2026-01-01T12:00:00Z', ['BUG']),
+  createCommit('b', 'Alice', '2026-01-02T12:00:00Z', ['FEATURE', 'BUG']),
+  createCommit('c', 'Bob', '2026-01-03T12:00:00Z', ['BUG']),
+  createCommit('d', 'Bob', '2026-02-01T12:00:00Z', ['CHORE']),
+];
+
+describe('countCommitFacets', () => {
+  it('counts each commit once per type and once for its author', () => {
+    expect(countCommitFacets(commits)).toEqual({
+      types: { FEATURE: 1, WARNING: 0, MILESTONE: 0, BUG: 3, CHORE: 1 },
+      authors: { Alice: 2, Bob: 2 },
+    });
+  });
+
+  it('applies every filter but its own to each facet', () => {
+    const counts = countCommitFacets(commits, {
+      to: new Date('2026-01-31T00:00:00Z'),
+      types: ['BUG'],
+      authors: ['Alice'],
+    });
+
+    expect(counts.types).toEqual({ FEATURE: 1, WARNING: 0, MILESTONE: 0, BUG: 2, CHORE: 0 });
+    expect(counts.authors).toEqual({ Alice: 2, Bob: 1 });
+  });
+});
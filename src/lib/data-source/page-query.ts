@@ -0,0 +1,49 @@
+import { Commit } from '@/types';
+import { CommitFacetCounts, CommitFacetQuery, CommitPageQuery } from './types';
+
+/**
+ * Whether a commit satisfies the filters of a page query (the cursor and limit are ignored).
+ * Mirrors what data sources apply, so commits arriving outside a fetch can be
+ * placed in the right cached variants of a timeline.
+ */
+export const matchesCommitPageQuery = (commit: Commit, query: Omit<CommitPageQuery, 'cursor' | 'limit'>): boolean => {
+  const date = new Date(commit.date);
+  if (query.from && date < query.from) return false;
+  if (query.to && date > query.to) return false;
+  if (query.authors?.length && !query.authors.includes(commit.author)) return false;
+  if (query.branch && !commit.refs?.includes(query.branch)) return false;
+  if (query.types?.length) {
+    const analyses = commit.commit_analyses || commit.commit_analises || [];
+    if (!analyses.some(analysis => query.types?.includes(analysis.type))) return false;
+  }
+  return true;
+};
+
+/**
+ * Counts the commits of each type and author matching a facet query. Type counts
+ * ignore the query's types and author counts its authors, so each menu shows what
+ * picking a value would add. A commit counts once for each of its types.
+ */
+export const countCommitFacets = (commits: Commit[], query: CommitFacetQuery = {}): CommitFacetCounts => {
+  const counts: CommitFacetCounts = {
+    types: { FEATURE: 0, WARNING: 0, MILESTONE: 0, BUG: 0, CHORE: 0 },
+    authors: {},
+  };
+  const otherFilters = { ...query, types: undefined, authors: undefined };
+
+  commits.forEach(commit => {
+    if (!matchesCommitPageQuery(commit, otherFilters)) return;
+
+    if (matchesCommitPageQuery(commit, { authors: query.authors })) {
+      const analyses = commit.commit_analyses || commit.commit_analises || [];
+      new Set(analyses.map(analysis => analysis.type)).forEach(type => {
+        if (type in counts.types) counts.types[type]++;
+      });
+    }
+    if (matchesCommitPageQuery(commit, { types: query.types })) {
+      counts.authors[commit.author] = (counts.authors[commit.author] || 0) + 1;
+    }
+  });
+
+  return counts;
+};
@@ -0,0 +1,298 @@
+import { AnalysisJob, Commit, SavedView, Tag } from '@/types';
+import {
+  CommitDataSource,
+  CommitFacetCounts,
+  CommitFacetQuery,
+  CommitPage,
+  CommitPageQuery,
+  DEFAULT_COMMIT_PAGE_SIZE,
+  FetchCommitsOptions,
+  RepoChangeEvent,
+  RepoChangeListener,
+  RestDataSourceConfig,
+  TriggerAnalysisOptions,
+} from './types';
+
+/**
+ * Talks to a self-hosted HTTP backend exposing:
+ *
+ * - `GET  /repos` → `string[]`
+ * - `GET  /repos/:repo/commits[?since=<iso date>&ref=<branch>]` → `Commit[]`
+ * - `GET  /repos/:repo/commits/page?limit&cursor&from&to&type&author&branch` → `CommitPage`,
+ *   newest first; `type` and `author` may be repeated
+ * - `GET  /repos/:repo/authors` → `string[]`
+ * - `GET  /repos/:repo/commits/facets?from&to&type&author&branch` → `CommitFacetCounts`,
+ *   where type counts ignore `type` and author counts ignore `author`
+ * - `GET  /repos/:repo/branches` → `string[]`
+ * - `GET  /repos/:repo/tags` → `Tag[]`, oldest first
+ * - `PUT  /repos/:repo/commits` with a `Commit[]` body (upsert by SHA)
+ * - `PUT  /repos/:repo/tags` with a `Tag[]` body (upsert by name)
+ * - `HEAD /repos/:repo` → 200 when the repository has commits, 404 otherwise
+ * - `POST /repos/:repo/analysis` with `{ repo_url, incremental }` → `AnalysisJob`
+ * - `GET  /analysis-jobs/:id` → `AnalysisJob`, 404 when unknown
+ * - `GET  /repos/:repo/views` → `SavedView[]`
+ * - `PUT  /repos/:repo/views` with a `SavedView[]` body (upsert by id)
+ * - `DELETE /repos/:repo/views/:id`
+ * - `GET  /repos/:repo/events` → server-sent events named `commit` and `analysis`
+ *   whose data is the JSON-encoded `Commit` or `CommitAnalysis`
+ *
+ * `:repo` is the URL-encoded `owner/repo` name.
+ */
+export const createRestDataSource = (config: RestDataSourceConfig): CommitDataSource => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const repoPath = (repoName: string) => `${baseUrl}/repos/${encodeURIComponent(repoName)}`;
+
+  const request = async (url: string, init?: RequestInit): Promise<Response> => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Request to ${url} failed with status ${response.status}`);
+    }
+
+    return response;
+  };
+
+  const fetchCommitsForRepo = async (repoName: string, options: FetchCommitsOptions = {}): Promise<Commit[]> => {
+    try {
+      console.log('Fetching commits for repo:', repoName, options);
+      const params = new URLSearchParams();
+      if (options.since) params.set('since', options.since);
+      if (options.ref) params.set('ref', options.ref);
+      const query = params.toString() ? `?${params}` : '';
+      const response = await request(`${repoPath(repoName)}/commits${query}`);
+      if (response.status === 404) return [];
+      return (await response.json()) as Commit[];
+    } catch (error) {
+      console.error('Error fetching commits:', error);
+      throw error;
+    }
+  };
+
+  // Query parameters shared by the page and facet endpoints
+  const filterParams = (query: CommitFacetQuery, params = new URLSearchParams()): URLSearchParams => {
+    if (query.from) params.set('from', query.from.toISOString());
+    if (query.to) params.set('to', query.to.toISOString());
+    query.types?.forEach(type => params.append('type', type));
+    query.authors?.forEach(author => params.append('author', author));
+    if (query.branch) params.set('branch', query.branch);
+    return params;
+  };
+
+  const fetchCommitPage = async (repoName: string, query: CommitPageQuery = {}): Promise<CommitPage> => {
+    try {
+      console.log('Fetching commit page for repo:', repoName, query);
+      const params = filterParams(query, new URLSearchParams({ limit: String(query.limit || DEFAULT_COMMIT_PAGE_SIZE) }));
+      if (query.cursor) params.set('cursor', query.cursor);
+
+      const response = await request(`${repoPath(repoName)}/commits/page?${params}`);
+      if (response.status === 404) return { commits: [], nextCursor: null };
+      return (await response.json()) as CommitPage;
+    } catch (error) {
+      console.error('Error fetching commit page:', error);
+      throw error;
+    }
+  };
+
+  const listAuthors = async (repoName: string): Promise<string[]> => {
+    try {
+      const response = await request(`${repoPath(repoName)}/authors`);
+      if (response.status === 404) return [];
+      return (await response.json()) as string[];
+    } catch (error) {
+      console.error('Error listing authors:', error);
+      throw error;
+    }
+  };
+
+  const countCommitFacets = async (repoName: string, query: CommitFacetQuery = {}): Promise<CommitFacetCounts> => {
+    try {
+      const response = await request(`${repoPath(repoName)}/commits/facets?${filterParams(query)}`);
+      if (response.status === 404) {
+        return { types: { FEATURE: 0, WARNING: 0, MILESTONE: 0, BUG: 0, CHORE: 0 }, authors: {} };
+      }
+      return (await response.json()) as CommitFacetCounts;
+    } catch (error) {
+      console.error('Error counting commit facets:', error);
+      throw error;
+    }
+  };
+
+  const listBranches = async (repoName: string): Promise<string[]> => {
+    try {
+      const response = await request(`${repoPath(repoName)}/branches`);
+      if (response.status === 404) return [];
+      return (await response.json()) as string[];
+    } catch (error) {
+      console.error('Error listing branches:', error);
+      throw error;
+    }
+  };
+
+  const listTags = async (repoName: string): Promise<Tag[]> => {
+    try {
+      const response = await request(`${repoPath(repoName)}/tags`);
+      if (response.status === 404) return [];
+      return (await response.json()) as Tag[];
+    } catch (error) {
+      console.error('Error listing tags:', error);
+      throw error;
+    }
+  };
+
+  const checkRepoExists = async (repoName: string): Promise<boolean> => {
+    try {
+      console.log('Checking if repo exists:', repoName);
+      const response = await request(repoPath(repoName), { method: 'HEAD' });
+      return response.ok;
+    } catch (error) {
+      console.error('Error checking if repo exists:', error);
+      throw error;
+    }
+  };
+
+  const listRepos = async (): Promise<string[]> => {
+    try {
+      const response = await request(`${baseUrl}/repos`);
+      if (response.status === 404) return [];
+      return (await response.json()) as string[];
+    } catch (error) {
+      console.error('Error listing repos:', error);
+      throw error;
+    }
+  };
+
+  const upsertCommits = async (repoName: string, commits: Commit[]): Promise<void> => {
+    try {
+      console.log(`Upserting ${commits.length} commits for repo:`, repoName);
+      await request(`${repoPath(repoName)}/commits`, {
+        method: 'PUT',
+        body: JSON.stringify(commits),
+      });
+    } catch (error) {
+      console.error('Error upserting commits:', error);
+      throw error;
+    }
+  };
+
+  const upsertTags = async (repoName: string, tags: Tag[]): Promise<void> => {
+    try {
+      console.log(`Upserting ${tags.length} tags for repo:`, repoName);
+      await request(`${repoPath(repoName)}/tags`, {
+        method: 'PUT',
+        body: JSON.stringify(tags),
+      });
+    } catch (error) {
+      console.error('Error upserting tags:', error);
+      throw error;
+    }
+  };
+
+  const triggerAnalysis = async (
+    repoName: string,
+    repoUrl: string,
+    options: TriggerAnalysisOptions = {}
+  ): Promise<AnalysisJob> => {
+    try {
+      console.log('Triggering analysis for repo:', repoName, options);
+      const response = await request(`${repoPath(repoName)}/analysis`, {
+        method: 'POST',
+        body: JSON.stringify({ repo_url: repoUrl, incremental: !!options.incremental }),
+      });
+      if (response.status === 404) {
+        throw new Error(`Repository ${repoName} cannot be analyzed`);
+      }
+      return (await response.json()) as AnalysisJob;
+    } catch (error) {
+      console.error('Error triggering analysis:', error);
+      throw error;
+    }
+  };
+
+  const getAnalysisJob = async (jobId: string): Promise<AnalysisJob | null> => {
+    try {
+      const response = await request(`${baseUrl}/analysis-jobs/${encodeURIComponent(jobId)}`);
+      if (response.status === 404) return null;
+      return (await response.json()) as AnalysisJob;
+    } catch (error) {
+      console.error('Error fetching analysis job:', error);
+      throw error;
+    }
+  };
+
+  const listSavedViews = async (repoName: string): Promise<SavedView[]> => {
+    try {
+      const response = await request(`${repoPath(repoName)}/views`);
+      if (response.status === 404) return [];
+      return (await response.json()) as SavedView[];
+    } catch (error) {
+      console.error('Error listing saved views:', error);
+      throw error;
+    }
+  };
+
+  const upsertSavedViews = async (repoName: string, views: SavedView[]): Promise<void> => {
+    try {
+      console.log(`Upserting ${views.length} saved views for repo:`, repoName);
+      await request(`${repoPath(repoName)}/views`, {
+        method: 'PUT',
+        body: JSON.stringify(views),
+      });
+    } catch (error) {
+      console.error('Error upserting saved views:', error);
+      throw error;
+    }
+  };
+
+  const deleteSavedView = async (repoName: string, viewId: string): Promise<void> => {
+    try {
+      await request(`${repoPath(repoName)}/views/${encodeURIComponent(viewId)}`, { method: 'DELETE' });
+    } catch (error) {
+      console.error('Error deleting saved view:', error);
+      throw error;
+    }
+  };
+
+  const subscribeToRepo = (repoName: string, listener: RepoChangeListener): () => void => {
+    console.log('Subscribing to change events for repo:', repoName);
+    const events = new EventSource(`${repoPath(repoName)}/events`);
+
+    const handle = (kind: RepoChangeEvent['kind']) => (event: MessageEvent<string>) => {
+      try {
+        const payload = JSON.parse(event.data);
+        listener(kind === 'commit' ? { kind, commit: payload } : { kind, analysis: payload });
+      } catch (error) {
+        console.error('Error parsing change event:', error);
+      }
+    };
+
+    events.addEventListener('commit', handle('commit'));
+    events.addEventListener('analysis', handle('analysis'));
+    events.onerror = (error) => console.error('Change event stream error:', error);
+
+    return () => events.close();
+  };
+
+  return {
+    kind: 'rest',
+    cacheKey: `rest:${baseUrl}`,
+    fetchCommitsForRepo,
+    fetchCommitPage,
+    listAuthors,
+    countCommitFacets,
+    listBranches,
+    listTags,
+    checkRepoExists,
+    listRepos,
+    upsertCommits,
+    upsertTags,
+    triggerAnalysis,
+    getAnalysisJob,
+    listSavedViews,
+    upsertSavedViews,
+    deleteSavedView,
+    subscribeToRepo,
+  };
+};
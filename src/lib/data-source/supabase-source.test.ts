@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSupabaseDataSource } from '@/lib/data-source/supabase-source';
+
+// 2,500 commits by 1,200 authors across two repositories, more than one response holds
+const rows = Array.from({ length: 2500 }, (_, index) => ({
+  author: `author-${String(index % 1200).padStart(4, '0')}`,
+  repo_name: index < 2000 ? 'acme/api' : 'acme/web',
+}));
+
+const requestedRanges: [number, number][] = [];
+const requestedSelects: string[] = [];
+const requestedFilters: [string, string[]][] = [];
+
+// Query builder answering `.range()` like PostgREST, capped at 1,000 rows
+const createQuery = () => {
+  let matching = rows;
+  const query = {
+    select: (columns: string) => {
+      requestedSelects.push(columns.replace(/\s+/g, ' ').trim());
+      return query;
+    },
+    order: () => query,
+    in: (column: string, values: string[]) => {
+      requestedFilters.push([column, values]);
+      return query;
+    },
+    limit: (count: number) => {
+      matching = matching.slice(0, count);
+      return query;
+    },
+    // Answers a filtered page the way PostgREST embeds the `type_match` alias
+    overrideTypes: async () => ({
+      data: matching.map(row => ({ ...row, commit_analyses: [], type_match: [{ type: 'BUG' }] })),
+      error: null,
+    }),
+    eq: (column: 'repo_name', value: string) => {
+      matching = matching.filter(row => row[column] === value);
+      return query;
+    },
+    range: async (from: number, to: number) => {
+      requestedRanges.push([from, to]);
+      return { data: matching.slice(from, Math.min(to + 1, from + 1000)), error: null };
+    },
+  };
+  return query;
+};
+
+vi.mock('@/lib/supabase', () => ({
+  createSupabaseClient: () => ({ from: () => createQuery() }),
+}));
+
+const dataSource = createSupabaseDataSource({ kind: 'supabase', url: 'https://example.supabase.co', anonKey: 'key' });
+
+describe('supabase data source', () => {
+  beforeEach(() => {
+    requestedRanges.length = 0;
+    requestedSelects.length = 0;
+    requestedFilters.length = 0;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('lists authors beyond the first page of rows', async () => {
+    const authors = await dataSource.listAuthors('acme/api');
+
+    expect(authors).toHaveLength(1200);
+    expect(requestedRanges).toEqual([[0, 999], [1000, 1999], [2000, 2999]]);
+  });
+
+  it('fetches every commit of a repository, not just the first page', async () => {
+    const commits = await dataSource.fetchCommitsForRepo('acme/api');
+
+    expect(commits).toHaveLength(2000);
+    expect(requestedRanges).toEqual([[0, 999], [1000, 1999], [2000, 2999]]);
+  });
+
+  it('filters a page by type through its own join, keeping every analysis', async () => {
+    const page = await dataSource.fetchCommitPage('acme/web', { types: ['BUG'], limit: 10 });
+
+    expect(requestedSelects).toEqual(['*, commit_analyses(*), type_match:commit_analyses!inner(type)']);
+    expect(requestedFilters).toEqual([['type_match.type', ['BUG']]]);
+    expect(page.commits).toHaveLength(10);
+    expect(page.commits[0]).not.toHaveProperty('type_match');
+  });
+
+  it('lists repositories beyond the first page of rows', async () => {
+    expect(await dataSource.listRepos()).toEqual(['acme/api', 'acme/web']);
+  });
+});
@@ -0,0 +1,428 @@
+import { AnalysisJob, Commit, CommitAnalysis, SavedView, Tag } from '@/types';
+import { createSupabaseClient } from '@/lib/supabase';
+import {
+  CommitDataSource,
+  CommitFacetCounts,
+  CommitFacetQuery,
+  CommitPage,
+  CommitPageQuery,
+  DEFAULT_COMMIT_PAGE_SIZE,
+  FetchCommitsOptions,
+  RepoChangeListener,
+  SupabaseDataSourceConfig,
+  TriggerAnalysisOptions,
+} from './types';
+import { decodeCommitCursor, encodeCommitCursor } from './cursor';
+
+// PostgREST returns at most this many rows per request, so column scans read page by page
+const SCAN_PAGE_SIZE = 1000;
+
+type ScanPage<Row> = PromiseLike<{ data: Row[] | null; error: unknown }>;
+
+/**
+ * Reads every row of a query through `.range()` pages of `SCAN_PAGE_SIZE`.
+ * The query must be ordered so that pages don't overlap.
+ */
+const scanAllRows = async <Row>(fetchPage: (from: number, to: number) => ScanPage<Row>): Promise<Row[]> => {
+  const rows: Row[] = [];
+  for (let from = 0; ; from += SCAN_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + SCAN_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Supabase error:', error);
+      throw error;
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < SCAN_PAGE_SIZE) return rows;
+  }
+};
+
+/**
+ * Reads commits from the `commits` / `commit_analyses` tables of a Supabase project.
+ * Analysis runs in the `analyze-repo` edge function, which records its progress
+ * in the `analysis_jobs` table and keeps each repository's high-water mark for
+ * incremental runs. Saved views are kept in the `saved_views` table, and facet
+ * counts come from the `count_commit_facets` database function.
+ */
+export const createSupabaseDataSource = (config: SupabaseDataSourceConfig): CommitDataSource => {
+  const supabase = createSupabaseClient(config.url, config.anonKey);
+
+  const fetchCommitsForRepo = async (repoName: string, options: FetchCommitsOptions = {}): Promise<Commit[]> => {
+    try {
+      console.log('Fetching commits for repo:', repoName, options);
+      const commits = await scanAllRows<Commit>((from, to) => {
+        let query = supabase
+          .from('commits')
+          .select(`
+            *,
+            commit_analyses(*)
+          `)
+          .eq('repo_name', repoName);
+
+        if (options.since) {
+          query = query.gt('date', options.since);
+        }
+
+        if (options.ref) {
+          query = query.contains('refs', [options.ref]);
+        }
+
+        return query.order('sha').range(from, to);
+      });
+
+      console.log('Commits fetched from Supabase:', commits);
+      return commits;
+    } catch (error) {
+      console.error('Error fetching commits:', error);
+      throw error;
+    }
+  };
+
+  const fetchCommitPage = async (repoName: string, query: CommitPageQuery = {}): Promise<CommitPage> => {
+    try {
+      console.log('Fetching commit page for repo:', repoName, query);
+      const limit = query.limit || DEFAULT_COMMIT_PAGE_SIZE;
+      // A separate inner join drops commits without an analysis of the requested types,
+      // while `commit_analyses` keeps every analysis of the commits that remain
+      const columns = query.types?.length
+        ? '*, commit_analyses(*), type_match:commit_analyses!inner(type)'
+        : '*, commit_analyses(*)';
+
+      let request = supabase
+        .from('commits')
+        .select(columns)
+        .eq('repo_name', repoName);
+
+      if (query.from) request = request.gte('date', query.from.toISOString());
+      if (query.to) request = request.lte('date', query.to.toISOString());
+      if (query.authors?.length) request = request.in('author', query.authors);
+      if (query.branch) request = request.contains('refs', [query.branch]);
+      if (query.types?.length) request = request.in('type_match.type', query.types);
+      if (query.cursor) {
+        const { date, sha } = decodeCommitCursor(query.cursor);
+        request = request.or(`date.lt."${date}",and(date.eq."${date}",sha.lt."${sha}")`);
+      }
+
+      // Fetch one extra row to know whether there is another page
+      const { data, error } = await request
+        .order('date', { ascending: false })
+        .order('sha', { ascending: false })
+        .limit(limit + 1)
+        .overrideTypes<(Commit & { type_match?: unknown })[], { merge: false }>();
+
+      if (error) {
+        console.error('Supabase error:', error);
+        throw error;
+      }
+
+      // The `type_match` join only filters, so it is dropped from the rows
+      const commits: Commit[] = (data || []).map(({ type_match, ...commit }) => commit);
+      const page = commits.slice(0, limit);
+      return {
+        commits: page,
+        nextCursor: commits.length > limit ? encodeCommitCursor(page[page.length - 1]) : null,
+      };
+    } catch (error) {
+      console.error('Error fetching commit page:', error);
+      throw error;
+    }
+  };
+
+  const listAuthors = async (repoName: string): Promise<string[]> => {
+    try {
+      const rows = await scanAllRows<{ author: string }>((from, to) => supabase
+        .from('commits')
+        .select('author')
+        .eq('repo_name', repoName)
+        .order('sha')
+        .range(from, to));
+
+      return Array.from(new Set(rows.map(row => row.author))).sort();
+    } catch (error) {
+      console.error('Error listing authors:', error);
+      throw error;
+    }
+  };
+
+  const countCommitFacets = async (repoName: string, query: CommitFacetQuery = {}): Promise<CommitFacetCounts> => {
+    try {
+      const { data, error } = await supabase.rpc('count_commit_facets', {
+        repo_name: repoName,
+        date_from: query.from?.toISOString() || null,
+        date_to: query.to?.toISOString() || null,
+        types: query.types?.length ? query.types : null,
+        authors: query.authors?.length ? query.authors : null,
+        branch: query.branch || null,
+      });
+
+      if (error) {
+        console.error('Supabase error:', error);
+        throw error;
+      }
+
+      return data as CommitFacetCounts;
+    } catch (error) {
+      console.error('Error counting commit facets:', error);
+      throw error;
+    }
+  };
+
+  const listBranches = async (repoName: string): Promise<string[]> => {
+    try {
+      const rows = await scanAllRows<{ refs: string[] | null }>((from, to) => supabase
+        .from('commits')
+        .select('refs')
+        .eq('repo_name', repoName)
+        .not('refs', 'is', null)
+        .order('sha')
+        .range(from, to));
+
+      return Array.from(new Set(rows.flatMap(row => row.refs || []))).sort();
+    } catch (error) {
+      console.error('Error listing branches:', error);
+      throw error;
+    }
+  };
+
+  const listTags = async (repoName: string): Promise<Tag[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('*')
+        .eq('repo_name', repoName)
+        .order('date', { ascending: true });
+
+      if (error) {
+        console.error('Supabase error:', error);
+        throw error;
+      }
+
+      return (data || []) as Tag[];
+    } catch (error) {
+      console.error('Error listing tags:', error);
+      throw error;
+    }
+  };
+
+  const checkRepoExists = async (repoName: string): Promise<boolean> => {
+    try {
+      console.log('Checking if repo exists:', repoName);
+      const { count, error } = await supabase
+        .from('commits')
+        .select('*', { count: 'exact', head: true })
+        .eq('repo_name', repoName);
+
+      if (error) {
+        console.error('Supabase error:', error);
+        throw error;
+      }
+
+      console.log('Repo check result:', count);
+      return count !== null && count > 0;
+    } catch (error) {
+      console.error('Error checking if repo exists:', error);
+      throw error;
+    }
+  };
+
+  const listRepos = async (): Promise<string[]> => {
+    try {
+      const rows = await scanAllRows<{ repo_name: string }>((from, to) => supabase
+        .from('commits')
+        .select('repo_name')
+        .order('sha')
+        .range(from, to));
+
+      return Array.from(new Set(rows.map(row => row.repo_name)));
+    } catch (error) {
+      console.error('Error listing repos:', error);
+      throw error;
+    }
+  };
+
+  const upsertCommits = async (repoName: string, commits: Commit[]): Promise<void> => {
+    try {
+      console.log(`Upserting ${commits.length} commits for repo:`, repoName);
+      // Analyses live in their own table, so only the commit columns are written
+      const rows = commits.map(({ commit_analyses, commit_analises, ...commit }) => ({
+        ...commit,
+        repo_name: repoName,
+      }));
+
+      // The same commit can belong to several repositories (e.g. forks), so rows are keyed by both
+      const { error } = await supabase
+        .from('commits')
+        .upsert(rows, { onConflict: 'repo_name,sha' });
+
+      if (error) {
+        console.error('Supabase error:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Error upserting commits:', error);
+      throw error;
+    }
+  };
+
+  const upsertTags = async (repoName: string, tags: Tag[]): Promise<void> => {
+    try {
+      console.log(`Upserting ${tags.length} tags for repo:`, repoName);
+      const { error } = await supabase
+        .from('tags')
+        .upsert(tags.map(tag => ({ ...tag, repo_name: repoName })), { onConflict: 'repo_name,name' });
+
+      if (error) {
+        console.error('Supabase error:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Error upserting tags:', error);
+      throw error;
+    }
+  };
+
+  const triggerAnalysis = async (
+    repoName: string,
+    repoUrl: string,
+    options: TriggerAnalysisOptions = {}
+  ): Promise<AnalysisJob> => {
+    try {
+      console.log('Triggering analysis for repo:', repoName, options);
+      const { data, error } = await supabase.functions.invoke<AnalysisJob>('analyze-repo', {
+        body: { repo_name: repoName, repo_url: repoUrl, incremental: !!options.incremental },
+      });
+
+      if (error) {
+        console.error('Supabase error:', error);
+        throw error;
+      }
+
+      console.log('Analysis job created:', data);
+      return data;
+    } catch (error) {
+      console.error('Error triggering analysis:', error);
+      throw error;
+    }
+  };
+
+  const getAnalysisJob = async (jobId: string): Promise<AnalysisJob | null> => {
+    try {
+      const { data, error } = await supabase
+        .from('analysis_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Supabase error:', error);
+        throw error;
+      }
+
+      return data as AnalysisJob | null;
+    } catch (error) {
+      console.error('Error fetching analysis job:', error);
+      throw error;
+    }
+  };
+
+  const listSavedViews = async (repoName: string): Promise<SavedView[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('saved_views')
+        .select('*')
+        .eq('repo_name', repoName);
+
+      if (error) {
+        console.error('Supabase error:', error);
+        throw error;
+      }
+
+      return (data || []) as SavedView[];
+    } catch (error) {
+      console.error('Error listing saved views:', error);
+      throw error;
+    }
+  };
+
+  const upsertSavedViews = async (repoName: string, views: SavedView[]): Promise<void> => {
+    try {
+      console.log(`Upserting ${views.length} saved views for repo:`, repoName);
+      const { error } = await supabase
+        .from('saved_views')
+        .upsert(views.map(view => ({ ...view, repo_name: repoName })), { onConflict: 'id' });
+
+      if (error) {
+        console.error('Supabase error:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Error upserting saved views:', error);
+      throw error;
+    }
+  };
+
+  const deleteSavedView = async (repoName: string, viewId: string): Promise<void> => {
+    try {
+      const { error } = await supabase
+        .from('saved_views')
+        .delete()
+        .eq('repo_name', repoName)
+        .eq('id', viewId);
+
+      if (error) {
+        console.error('Supabase error:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Error deleting saved view:', error);
+      throw error;
+    }
+  };
+
+  const subscribeToRepo = (repoName: string, listener: RepoChangeListener): () => void => {
+    console.log('Subscribing to realtime changes for repo:', repoName);
+    const filter = `repo_name=eq.${repoName}`;
+
+    const channel = supabase
+      .channel(`repo-changes:${repoName}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'commits', filter }, payload => {
+        listener({ kind: 'commit', commit: payload.new as Commit });
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'commits', filter }, payload => {
+        listener({ kind: 'commit', commit: payload.new as Commit });
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'commit_analyses', filter }, payload => {
+        listener({ kind: 'analysis', analysis: payload.new as CommitAnalysis });
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'commit_analyses', filter }, payload => {
+        listener({ kind: 'analysis', analysis: payload.new as CommitAnalysis });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  };
+
+  return {
+    kind: 'supabase',
+    cacheKey: `supabase:${config.url.replace(/\/+$/, '')}`,
+    fetchCommitsForRepo,
+    fetchCommitPage,
+    listAuthors,
+    countCommitFacets,
+    listBranches,
+    listTags,
+    checkRepoExists,
+    listRepos,
+    upsertCommits,
+    upsertTags,
+    triggerAnalysis,
+    getAnalysisJob,
+    listSavedViews,
+    upsertSavedViews,
+    deleteSavedView,
+    subscribeToRepo,
+  };
+};
@@ -0,0 +1,129 @@
+import { AnalysisJob, Commit, CommitAnalysis, CommitType, SavedView, Tag } from '@/types';
+
+/**
+ * Backend-agnostic access to commit timelines.
+ *
+ * Pages and components never talk to Supabase (or any other backend)
+ * directly; they receive an implementation of this interface through
+ * `DataSourceProvider` and call it via `useDataSource()`.
+ */
+export interface CommitDataSource {
+  /** Short identifier used in logs, e.g. `supabase`, `rest` or `memory` */
+  readonly kind: DataSourceKind;
+  /** Identifies the backend behind the source, e.g. `rest:https://api.example.com`; keys cached data */
+  readonly cacheKey: string;
+  /** Fetches the commits (with nested analyses) stored for a repository */
+  fetchCommitsForRepo(repoName: string, options?: FetchCommitsOptions): Promise<Commit[]>;
+  /** Fetches one page of commits, newest first, with filters applied by the backend */
+  fetchCommitPage(repoName: string, query?: CommitPageQuery): Promise<CommitPage>;
+  /** Lists every author with commits in the repository */
+  listAuthors(repoName: string): Promise<string[]>;
+  /** Counts the commits of each type and author across the repository's whole history */
+  countCommitFacets(repoName: string, query?: CommitFacetQuery): Promise<CommitFacetCounts>;
+  /** Lists every branch the repository's commits are reachable from */
+  listBranches(repoName: string): Promise<string[]>;
+  /** Lists the tags and releases of a repository, oldest first */
+  listTags(repoName: string): Promise<Tag[]>;
+  /** Returns true when at least one commit is stored for the repository */
+  checkRepoExists(repoName: string): Promise<boolean>;
+  /** Lists the names (`owner/repo`) of every repository with stored commits */
+  listRepos(): Promise<string[]>;
+  /** Inserts or replaces commits (matched by SHA) for a repository */
+  upsertCommits(repoName: string, commits: Commit[]): Promise<void>;
+  /** Inserts or replaces tags (matched by name) for a repository */
+  upsertTags(repoName: string, tags: Tag[]): Promise<void>;
+  /** Starts a job that (re-)analyzes a repository */
+  triggerAnalysis(repoName: string, repoUrl: string, options?: TriggerAnalysisOptions): Promise<AnalysisJob>;
+  /** Returns the current state of an analysis job, or null if it does not exist */
+  getAnalysisJob(jobId: string): Promise<AnalysisJob | null>;
+  /** Lists the views saved for a repository */
+  listSavedViews(repoName: string): Promise<SavedView[]>;
+  /** Inserts or replaces saved views (matched by id) for a repository */
+  upsertSavedViews(repoName: string, views: SavedView[]): Promise<void>;
+  /** Deletes a saved view; deleting a missing view is not an error */
+  deleteSavedView(repoName: string, viewId: string): Promise<void>;
+  /**
+   * Streams inserted and updated commits and analyses of a repository.
+   * Returns a function that ends the subscription.
+   */
+  subscribeToRepo(repoName: string, listener: RepoChangeListener): () => void;
+}
+
+export type RepoChangeEvent =
+  | { kind: 'commit'; commit: Commit }
+  | { kind: 'analysis'; analysis: CommitAnalysis };
+
+export type RepoChangeListener = (event: RepoChangeEvent) => void;
+
+export interface FetchCommitsOptions {
+  /** Only return commits dated strictly after this ISO timestamp */
+  since?: string;
+  /** Only return commits reachable from this branch */
+  ref?: string;
+}
+
+export interface CommitPageQuery {
+  /** Opaque cursor returned as `nextCursor` by the previous page */
+  cursor?: string | null;
+  /** Maximum number of commits in the page, defaults to `DEFAULT_COMMIT_PAGE_SIZE` */
+  limit?: number;
+  /** Inclusive date window, matching `TimelineFilters.dateRange` */
+  from?: Date | null;
+  to?: Date | null;
+  /** Only commits with an analysis of one of these types */
+  types?: CommitType[];
+  /** Only commits by one of these authors */
+  authors?: string[];
+  /** Only commits reachable from this branch */
+  branch?: string | null;
+}
+
+/** Filters of a facet count; like the FilterBar menus, each facet applies every filter but its own */
+export type CommitFacetQuery = Omit<CommitPageQuery, 'cursor' | 'limit'>;
+
+export interface CommitFacetCounts {
+  /** Commits with an analysis of each type, under every filter but `types` */
+  types: Record<CommitType, number>;
+  /** Commits by each author, under every filter but `authors`; authors without commits are left out */
+  authors: Record<string, number>;
+}
+
+export interface CommitPage {
+  commits: Commit[];
+  /** Cursor for the next (older) page, or null when there is no more history */
+  nextCursor: string | null;
+}
+
+export const DEFAULT_COMMIT_PAGE_SIZE = 500;
+
+export interface TriggerAnalysisOptions {
+  /**
+   * Only fetch commits newer than the repository's high-water mark and only
+   * analyze commits without a `CommitAnalysis` row
+   */
+  incremental?: boolean;
+}
+
+export type DataSourceKind = 'supabase' | 'rest' | 'memory';
+
+export interface SupabaseDataSourceConfig {
+  kind: 'supabase';
+  url: string;
+  anonKey: string;
+}
+
+export interface RestDataSourceConfig {
+  kind: 'rest';
+  baseUrl: string;
+}
+
+export interface MemoryDataSourceConfig {
+  kind: 'memory';
+  /** Optional URL of a JSON file containing a `Commit[]` fixture */
+  fixtureUrl?: string;
+}
+
+export type DataSourceConfig =
+  | SupabaseDataSourceConfig
+  | RestDataSourceConfig
+  | MemoryDataSourceConfig;
@@ -0,0 +1,99 @@
+import { Commit } from '@/types';
+import { analyzeCommit } from '@/lib/analysis/heuristic-analyzer';
+
+export interface GenerateCommitsOptions {
+  /** Number of commits to generate */
+  count: number;
+  /** Repository name stored on every commit */
+  repoName?: string;
+  /** Number of distinct authors */
+  authors?: number;
+  /** Date of the newest commit, defaults to now */
+  end?: Date;
+  /** Length of the history in years */
+  years?: number;
+  /** Seed for the pseudo-random generator, so fixtures are reproducible */
+  seed?: number;
+}
+
+const SUBJECTS = [
+  'feat: add {area} support',
+  'feat({area}): implement batching',
+  'fix: crash in {area} on startup',
+  'fix({area}): handle empty input',
+  'chore: update {area} dependencies',
+  'refactor({area}): simplify state handling',
+  'docs: describe {area} configuration',
+  'Revert "{area}: enable fast path"',
+  'security: sanitize {area} input',
+  'Release v{version}',
+];
+
+const AREAS = ['scheduler', 'net', 'fs', 'mm', 'drivers', 'crypto', 'sound', 'arch', 'block', 'ipc', 'kernel', 'tools'];
+
+// Small, fast seeded PRNG (mulberry32)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Generates a synthetic repository history for benchmarking the timeline,
+ * e.g. `generateCommits({ count: 60000 })` is roughly the size of a large
+ * monorepo. Commits are linear (one parent each), newest first, with
+ * heuristic analyses attached.
+ */
+export const generateCommits = ({
+  count,
+  repoName = 'benchmark/large-repo',
+  authors = 500,
+  end = new Date(),
+  years = 20,
+  seed = 1,
+}: GenerateCommitsOptions): Commit[] => {
+  const random = createRandom(seed);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const sha = () => Array.from({ length: 40 }, () => Math.floor(random() * 16).toString(16)).join('');
+  // Author activity follows a long tail: a few authors write most commits
+  const author = () => `developer-${Math.floor(Math.pow(random(), 3) * authors)}`;
+
+  const endTime = end.getTime();
+  const span = years * 365 * 24 * 60 * 60 * 1000;
+  const shas = Array.from({ length: count }, sha);
+  const createdAt = end.toISOString();
+
+  return shas.map((commitSha, index) => {
+    // Activity grows over time: later commits are packed more densely
+    const age = Math.pow(index / Math.max(1, count - 1), 1.5) * span;
+    const date = new Date(endTime - age - Math.floor(random() * 60 * 60 * 1000)).toISOString();
+    const name = author();
+    const area = pick(AREAS);
+    const message = pick(SUBJECTS)
+      .replace('{area}', area)
+      .replace('{version}', `${Math.floor(index / 1000)}.${index % 10}.0`);
+
+    const commit: Commit = {
+      sha: commitSha,
+      created_at: createdAt,
+      repo_name: repoName,
+      author: name,
+      author_url: '',
+      author_email: `${name}@example.com`,
+      date,
+      message,
+      url: '',
+      description: '',
+      parent_shas: index < count - 1 ? [shas[index + 1]] : [],
+      refs: ['main'],
+      files: [`${area}/${pick(AREAS)}.c`],
+    };
+
+    return { ...commit, commit_analyses: [analyzeCommit(commit)] };
+  });
+};
@@ -0,0 +1,244 @@
+import { Commit } from '@/types';
+
+export type ForgeId = 'github' | 'gitlab' | 'bitbucket' | 'gitea' | 'generic';
+
+/**
+ * A repository location parsed from an HTTPS, SSH or scp-style (`git@host:path`) URL
+ */
+export interface ForgeRepo {
+  forge: ForgeProvider;
+  host: string;
+  /** User, organization or (possibly nested) group path, e.g. `group/subgroup` */
+  owner: string;
+  repo: string;
+  /** Browser URL of the repository, without trailing slash */
+  webUrl: string;
+  /**
+   * Name used as `repo_name` in the data source: `owner/repo` on github.com
+   * (for compatibility with existing data), `host/owner/repo` everywhere else
+   */
+  repoName: string;
+}
+
+export interface ForgeProvider {
+  id: ForgeId;
+  /** Display name, e.g. "GitHub" */
+  label: string;
+  /** Hosts served by this forge; self-hosted instances are added with `registerForgeHost` */
+  hosts: string[];
+  /** Whether repositories can live in nested groups (`group/subgroup/repo`) */
+  nestedGroups: boolean;
+  commitUrl(repo: ForgeRepo, sha: string): string;
+  authorUrl(repo: ForgeRepo, author: string): string;
+  /** Avatar image for an author, or null when the forge has no public avatar URL */
+  avatarUrl(repo: ForgeRepo, author: string): string | null;
+  /** Login named by a commit email, e.g. the no-reply address of commits made on the forge */
+  loginFromEmail?(repo: ForgeRepo, email: string): string | null;
+}
+
+const originOf = (repo: ForgeRepo) => `https://${repo.host}`;
+
+// Matches `<local part>@<domain prefix>.<repository host>` and returns the login captured by `localPart`
+const matchNoReplyEmail = (email: string, localPart: string, domainPrefix: string, host: string): string | null => {
+  const domain = `${domainPrefix}.${host}`.replace(/\./g, '\\.');
+  return email.match(new RegExp(`^${localPart}@${domain}$`, 'i'))?.[1] || null;
+};
+
+const github: ForgeProvider = {
+  id: 'github',
+  label: 'GitHub',
+  hosts: ['github.com'],
+  nestedGroups: false,
+  commitUrl: (repo, sha) => `${repo.webUrl}/commit/${sha}`,
+  authorUrl: (repo, author) => `${originOf(repo)}/${author}`,
+  avatarUrl: (repo, author) => `${originOf(repo)}/${author}.png`,
+  // `login@users.noreply.github.com`, or `<id>+login@...` for accounts created since 2017
+  loginFromEmail: (repo, email) => matchNoReplyEmail(email, '(?:\\d+\\+)?([\\w-]+)', 'users.noreply', repo.host),
+};
+
+const gitlab: ForgeProvider = {
+  id: 'gitlab',
+  label: 'GitLab',
+  hosts: ['gitlab.com'],
+  nestedGroups: true,
+  commitUrl: (repo, sha) => `${repo.webUrl}/-/commit/${sha}`,
+  authorUrl: (repo, author) => `${originOf(repo)}/${author}`,
+  avatarUrl: () => null,
+  // `<id>-login@users.noreply.gitlab.com`
+  loginFromEmail: (repo, email) => matchNoReplyEmail(email, '\\d+-([\\w.-]+)', 'users.noreply', repo.host),
+};
+
+const bitbucket: ForgeProvider = {
+  id: 'bitbucket',
+  label: 'Bitbucket',
+  hosts: ['bitbucket.org'],
+  nestedGroups: false,
+  commitUrl: (repo, sha) => `${repo.webUrl}/commits/${sha}`,
+  authorUrl: (repo, author) => `${originOf(repo)}/${author}/`,
+  avatarUrl: () => null,
+};
+
+const gitea: ForgeProvider = {
+  id: 'gitea',
+  label: 'Gitea',
+  hosts: ['gitea.com', 'codeberg.org'],
+  nestedGroups: false,
+  commitUrl: (repo, sha) => `${repo.webUrl}/commit/${sha}`,
+  authorUrl: (repo, author) => `${originOf(repo)}/${author}`,
+  avatarUrl: (repo, author) => `${originOf(repo)}/user/avatar/${author}/64`,
+  // `login@noreply.codeberg.org`, Gitea's default for users hiding their email
+  loginFromEmail: (repo, email) => matchNoReplyEmail(email, '([\\w.-]+)', 'noreply', repo.host),
+};
+
+// Unknown hosts: most forges serve commits at `<repo>/commit/<sha>`
+const generic: ForgeProvider = {
+  id: 'generic',
+  label: 'Git',
+  hosts: [],
+  nestedGroups: true,
+  commitUrl: (repo, sha) => `${repo.webUrl}/commit/${sha}`,
+  authorUrl: (repo, author) => `${originOf(repo)}/${author}`,
+  avatarUrl: () => null,
+};
+
+const forges: ForgeProvider[] = [github, gitlab, bitbucket, gitea];
+
+/**
+ * Adds a forge implementation to the registry
+ */
+export const registerForge = (forge: ForgeProvider) => {
+  const index = forges.findIndex(existing => existing.id === forge.id);
+  if (index >= 0) {
+    forges[index] = forge;
+  } else {
+    forges.push(forge);
+  }
+};
+
+/**
+ * Declares a self-hosted instance, e.g. `registerForgeHost('git.example.com', 'gitea')`
+ */
+export const registerForgeHost = (host: string, forgeId: ForgeId) => {
+  const forge = getForgeById(forgeId);
+  const normalizedHost = host.toLowerCase();
+  forges.forEach(existing => {
+    existing.hosts = existing.hosts.filter(h => h !== normalizedHost);
+  });
+  forge.hosts.push(normalizedHost);
+};
+
+/**
+ * Registers self-hosted instances from a `host=forge` list, e.g. `git.corp=gitlab,code.corp=gitea`
+ */
+export const configureForgeHosts = (mapping: string | undefined) => {
+  mapping?.split(',').forEach(entry => {
+    const [host, forgeId] = entry.split('=').map(part => part.trim());
+    if (!host || !forgeId) return;
+    if (!forges.some(forge => forge.id === forgeId)) {
+      console.error(`Unknown forge "${forgeId}" for host ${host}`);
+      return;
+    }
+    registerForgeHost(host, forgeId as ForgeId);
+  });
+};
+
+export const getForgeById = (id: ForgeId): ForgeProvider =>
+  forges.find(forge => forge.id === id) || generic;
+
+/**
+ * Gets the forge serving a host; unknown hosts are guessed from their name
+ */
+export const getForgeForHost = (host: string): ForgeProvider => {
+  const normalizedHost = host.toLowerCase().replace(/^www\./, '');
+  const registered = forges.find(forge => forge.hosts.includes(normalizedHost));
+  if (registered) return registered;
+
+  if (normalizedHost.includes('gitlab')) return gitlab;
+  if (normalizedHost.includes('bitbucket')) return bitbucket;
+  if (normalizedHost.includes('gitea') || normalizedHost.includes('forgejo')) return gitea;
+  if (normalizedHost.includes('github')) return github;
+  return generic;
+};
+
+/**
+ * Splits a repository URL into host and path.
+ * Accepts `https://host/path`, `ssh://git@host:22/path`, `git@host:path` and `host/path`.
+ */
+const splitRepoUrl = (url: string): { host: string; path: string } | null => {
+  const trimmed = url.trim().split(/[?#]/)[0];
+
+  const scpLike = trimmed.match(/^[\w.-]+@([\w.-]+):(?!\d+\/)(.+)$/);
+  if (scpLike) return { host: scpLike[1], path: scpLike[2] };
+
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const parsed = new URL(withScheme);
+    if (!parsed.hostname.includes('.') && parsed.hostname !== 'localhost') return null;
+    return { host: parsed.hostname, path: decodeURIComponent(parsed.pathname) };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parses a repository URL into `{host, owner, repo}` using the forge registry.
+ * Returns null when the URL doesn't point at a repository.
+ */
+export const parseRepoUrl = (url: string): ForgeRepo | null => {
+  const parts = splitRepoUrl(url);
+  if (!parts) return null;
+
+  const forge = getForgeForHost(parts.host);
+  const host = parts.host.toLowerCase().replace(/^www\./, '');
+
+  // GitLab separates the project path from sub-pages with `/-/`
+  const projectPath = parts.path.split('/-/')[0];
+  let segments = projectPath.split('/').filter(Boolean);
+  if (!forge.nestedGroups) {
+    segments = segments.slice(0, 2);
+  }
+  if (segments.length < 2) return null;
+
+  const repo = segments[segments.length - 1].replace(/\.git$/, '');
+  const owner = segments.slice(0, -1).join('/');
+  if (!repo || !owner) return null;
+
+  return {
+    forge,
+    host,
+    owner,
+    repo,
+    webUrl: `https://${host}/${owner}/${repo}`,
+    repoName: host === 'github.com' ? `${owner}/${repo}` : `${host}/${owner}/${repo}`,
+  };
+};
+
+/**
+ * Gets the `repo_name` for a repository URL, or an empty string when it can't be parsed
+ */
+export const extractRepoNameFromUrl = (url: string): string => parseRepoUrl(url)?.repoName || '';
+
+/**
+ * Resolves a stored `repo_name` back to its repository.
+ * Names without a host (`owner/repo`) are GitHub repositories.
+ */
+export const parseRepoName = (repoName: string): ForgeRepo | null => {
+  const segments = repoName.split('/').filter(Boolean);
+  const hasHost = segments.length > 2 || segments[0]?.includes('.');
+  return parseRepoUrl(hasHost ? `https://${repoName}` : `https://github.com/${repoName}`);
+};
+
+/**
+ * Gets the profile URL of a commit author from their email, or an empty string
+ * when the email doesn't name an account on the repository's forge
+ */
+export const getAuthorUrlFromEmail = (repo: ForgeRepo, email: string): string => {
+  const login = repo.forge.loginFromEmail?.(repo, email);
+  return login ? repo.forge.authorUrl(repo, login) : '';
+};
+
+/**
+ * Gets the repository a commit belongs to, preferring its own URL over its `repo_name`
+ */
+export const getRepoForCommit = (commit: Pick<Commit, 'url' | 'repo_name'>): ForgeRepo | null =>
+  (commit.url && parseRepoUrl(commit.url)) || parseRepoName(commit.repo_name);
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseGitLog } from '@/lib/ingest/git-log';
+
+const record = (sha: string, author: string, email: string) =>
+  '\x1e' + [sha, '', author, email, '2026-01-01T12:00:00+00:00', 'Subject', 'Body'].join('\x1f') + '\x1f';
+
+describe('parseGitLog', () => {
+  it('links authors whose email is a forge no-reply address', () => {
+    const output = [
+      record('a1', 'Jane Doe', '1234+janedoe@users.noreply.github.com'),
+      record('b2', 'John Roe', 'jroe@users.noreply.github.com'),
+      record('c3', 'Ann Poe', 'ann@example.com'),
+    ].join('\n');
+
+    const commits = parseGitLog(output, { repoName: 'acme/api', webUrl: 'https://github.com/acme/api' });
+
+    expect(commits.map(commit => commit.author_url)).toEqual([
+      'https://github.com/janedoe',
+      'https://github.com/jroe',
+      '',
+    ]);
+    expect(commits[0].url).toBe('https://github.com/acme/api/commit/a1');
+  });
+
+  it('uses the no-reply format of the repository forge', () => {
+    const output = [
+      record('a1', 'Jane Doe', '42-jane.doe@users.noreply.gitlab.com'),
+      record('b2', 'John Roe', 'jroe@users.noreply.github.com'),
+    ].join('\n');
+
+    const commits = parseGitLog(output, { repoName: 'gitlab.com/acme/api', webUrl: 'https://gitlab.com/acme/api' });
+
+    expect(commits.map(commit => commit.author_url)).toEqual(['https://gitlab.com/jane.doe', '']);
+  });
+
+  it('leaves author links empty without a web URL', () => {
+    const commits = parseGitLog(record('a1', 'Jane Doe', 'janedoe@users.noreply.github.com'), { repoName: 'acme/api' });
+
+    expect(commits[0].author_url).toBe('');
+  });
+});
@@ -0,0 +1,98 @@
+import { Commit, Tag } from '@/types';
+import { getAuthorUrlFromEmail, parseRepoUrl } from '@/lib/forges';
+
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+/**
+ * `git log --format` string producing one record per commit with the fields
+ * SHA, parent SHAs, author name, author email, author date, subject and body.
+ * The record separator comes first and the body is terminated by a field
+ * separator, so the file list printed by `--name-only` ends up as the last field.
+ */
+export const GIT_LOG_FORMAT = '%x1e' + ['%H', '%P', '%an', '%ae', '%aI', '%s', '%b'].join('%x1f') + '%x1f';
+
+export interface ParseGitLogOptions {
+  /** Repository name stored on every commit, e.g. `owner/repo` */
+  repoName: string;
+  /** Web URL of the repository, used to build commit and author links */
+  webUrl?: string;
+  /** Timestamp stored as `created_at`, defaults to now */
+  ingestedAt?: string;
+}
+
+/**
+ * Parses the output of `git log --format=GIT_LOG_FORMAT [--name-only]` into commits
+ */
+export const parseGitLog = (output: string, options: ParseGitLogOptions): Commit[] => {
+  const ingestedAt = options.ingestedAt || new Date().toISOString();
+  const webUrl = options.webUrl?.replace(/\/+$/, '');
+  const repo = webUrl ? parseRepoUrl(webUrl) : null;
+  const commitUrl = (sha: string) => {
+    if (repo) return repo.forge.commitUrl(repo, sha);
+    return webUrl ? `${webUrl}/commit/${sha}` : '';
+  };
+
+  return output
+    .split(RECORD_SEPARATOR)
+    .map(record => record.replace(/^\n+/, ''))
+    .filter(record => record.trim().length > 0)
+    .map(record => {
+      const [sha, parents, author, authorEmail, date, subject, body = '', files = ''] = record.split(FIELD_SEPARATOR);
+
+      return {
+        sha,
+        created_at: ingestedAt,
+        repo_name: options.repoName,
+        author,
+        // Plain git only knows the email, which names the account for forge no-reply addresses
+        author_url: repo ? getAuthorUrlFromEmail(repo, authorEmail) : '',
+        author_email: authorEmail,
+        date: new Date(date).toISOString(),
+        message: subject,
+        url: commitUrl(sha),
+        description: body.trim(),
+        parent_shas: parents ? parents.split(' ').filter(Boolean) : [],
+        files: files.split('\n').map(file => file.trim()).filter(Boolean),
+      };
+    });
+};
+
+/**
+ * `git for-each-ref --format` string producing one record per tag with the fields
+ * name, object type, object SHA, peeled object type, peeled SHA, date and annotation
+ */
+export const GIT_TAG_FORMAT = [
+  '%(refname:short)',
+  '%(objecttype)',
+  '%(objectname)',
+  '%(*objecttype)',
+  '%(*objectname)',
+  '%(creatordate:iso-strict)',
+  '%(contents)',
+].join('%1f') + '%1e';
+
+/**
+ * Parses the output of `git for-each-ref --format=GIT_TAG_FORMAT refs/tags` into tags.
+ * Tags that don't point at a commit are skipped.
+ */
+export const parseGitTags = (output: string, options: Pick<ParseGitLogOptions, 'repoName'>): Tag[] => {
+  return output
+    .split(RECORD_SEPARATOR)
+    .map(record => record.replace(/^\n+/, ''))
+    .filter(record => record.trim().length > 0)
+    .map(record => {
+      const [name, objectType, objectSha, peeledType, peeledSha, date, contents = ''] = record.split(FIELD_SEPARATOR);
+      const isAnnotated = objectType === 'tag';
+      if ((isAnnotated ? peeledType : objectType) !== 'commit') return null;
+
+      return {
+        repo_name: options.repoName,
+        name,
+        sha: isAnnotated ? peeledSha : objectSha,
+        date: new Date(date).toISOString(),
+        message: isAnnotated ? contents.trim() || null : null,
+      };
+    })
+    .filter((tag): tag is Tag => tag !== null);
+};
@@ -0,0 +1,150 @@
+import { execFile } from 'node:child_process';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { Commit, Tag } from '@/types';
+import { CommitDataSource } from '@/lib/data-source';
+import { parseRepoUrl } from '@/lib/forges';
+import { GIT_LOG_FORMAT, GIT_TAG_FORMAT, parseGitLog, parseGitTags } from './git-log';
+
+const execFileAsync = promisify(execFile);
+
+export interface IngestGitRepoOptions {
+  /** Path to a local clone */
+  repoPath: string;
+  /** Repository name stored on the commits, derived from the `origin` remote or directory name when omitted */
+  repoName?: string;
+  /** Web URL of the repository, used to build commit links; derived from the `origin` remote when omitted */
+  webUrl?: string;
+  /** Only read commits newer than this date (anything `git log --since` accepts) */
+  since?: string;
+  /** Maximum number of commits to read */
+  maxCount?: number;
+  /** Revision range passed to `git log`, defaults to every local branch */
+  rev?: string;
+  /** Branches recorded as `refs` on the commits, defaults to every local branch */
+  branches?: string[];
+  /** Where to write the commits; when omitted they are only returned */
+  dataSource?: CommitDataSource;
+  /** Number of commits written per `upsertCommits` call */
+  batchSize?: number;
+}
+
+export interface IngestGitRepoResult {
+  repoName: string;
+  commits: Commit[];
+  tags: Tag[];
+}
+
+const git = async (repoPath: string, args: string[]): Promise<string> => {
+  const { stdout } = await execFileAsync('git', ['-C', repoPath, ...args], {
+    maxBuffer: 1024 * 1024 * 512,
+  });
+  return stdout;
+};
+
+const readOriginRemote = async (repoPath: string) => {
+  try {
+    const remoteUrl = (await git(repoPath, ['remote', 'get-url', 'origin'])).trim();
+    return parseRepoUrl(remoteUrl);
+  } catch {
+    // No origin remote
+    return null;
+  }
+};
+
+/**
+ * Resolves the repository name from the `origin` remote, falling back to the directory name
+ */
+export const resolveRepoName = async (repoPath: string): Promise<string> => {
+  const origin = await readOriginRemote(repoPath);
+  return origin?.repoName || path.basename(path.resolve(repoPath));
+};
+
+/**
+ * Resolves the web URL of the repository from the `origin` remote (HTTPS or SSH)
+ */
+export const resolveWebUrl = async (repoPath: string): Promise<string | undefined> =>
+  (await readOriginRemote(repoPath))?.webUrl;
+
+/**
+ * Lists the local branches of a clone
+ */
+export const listLocalBranches = async (repoPath: string): Promise<string[]> => {
+  const output = await git(repoPath, ['for-each-ref', '--format=%(refname:short)', 'refs/heads']);
+  return output.split('\n').map(line => line.trim()).filter(Boolean);
+};
+
+/**
+ * Sets `refs` on each commit to the branches it is reachable from
+ */
+const annotateRefs = async (repoPath: string, commits: Commit[], branches: string[]): Promise<Commit[]> => {
+  const refsBySha = new Map<string, string[]>(commits.map(commit => [commit.sha, []]));
+
+  for (const branch of branches) {
+    const output = await git(repoPath, ['rev-list', branch, '--']);
+    output.split('\n').forEach(sha => refsBySha.get(sha.trim())?.push(branch));
+  }
+
+  return commits.map(commit => ({ ...commit, refs: refsBySha.get(commit.sha) || [] }));
+};
+
+/**
+ * Reads the history of a local git clone as commits, annotated with the branches they are on
+ */
+export const readGitLog = async (
+  repoPath: string,
+  options: Omit<IngestGitRepoOptions, 'repoPath' | 'dataSource' | 'batchSize'> & { repoName: string }
+): Promise<Commit[]> => {
+  const args = ['log', `--format=${GIT_LOG_FORMAT}`, '--name-only', '--date-order'];
+  if (options.since) args.push(`--since=${options.since}`);
+  if (options.maxCount) args.push(`--max-count=${options.maxCount}`);
+
+  const branches = options.branches || await listLocalBranches(repoPath);
+  if (options.rev) {
+    args.push(options.rev);
+  } else if (branches.length > 0) {
+    args.push(...branches);
+  } else {
+    // Detached clone without local branches
+    args.push('HEAD');
+  }
+  args.push('--');
+
+  const output = await git(repoPath, args);
+  const commits = parseGitLog(output, { repoName: options.repoName, webUrl: options.webUrl });
+  return annotateRefs(repoPath, commits, branches);
+};
+
+/**
+ * Reads the tags of a local git clone, oldest first
+ */
+export const readGitTags = async (repoPath: string, repoName: string): Promise<Tag[]> => {
+  const output = await git(repoPath, ['for-each-ref', `--format=${GIT_TAG_FORMAT}`, '--sort=creatordate', 'refs/tags']);
+  return parseGitTags(output, { repoName });
+};
+
+/**
+ * Reads a local clone and, when a data source is given, writes its commits and tags to it
+ */
+export const ingestGitRepository = async (options: IngestGitRepoOptions): Promise<IngestGitRepoResult> => {
+  const repoName = options.repoName || await resolveRepoName(options.repoPath);
+  console.log('Reading git history for repo:', repoName, 'from', options.repoPath);
+
+  const webUrl = options.webUrl || await resolveWebUrl(options.repoPath);
+  const commits = await readGitLog(options.repoPath, { ...options, repoName, webUrl });
+  // Only keep tags on commits that were read, so markers always have a commit to point at
+  const readShas = new Set(commits.map(commit => commit.sha));
+  const tags = (await readGitTags(options.repoPath, repoName)).filter(tag => readShas.has(tag.sha));
+  console.log(`Read ${commits.length} commits and ${tags.length} tags`);
+
+  if (options.dataSource) {
+    const batchSize = options.batchSize || 500;
+    for (let i = 0; i < commits.length; i += batchSize) {
+      await options.dataSource.upsertCommits(repoName, commits.slice(i, i + batchSize));
+    }
+    await options.dataSource.upsertTags(repoName, tags);
+    console.log(`Wrote ${commits.length} commits and ${tags.length} tags to ${options.dataSource.kind} data source`);
+  }
+
+  return { repoName, commits, tags };
+};
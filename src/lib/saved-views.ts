@@ -0,0 +1,65 @@
+import { SavedView } from '@/types';
+import { parseSavedViews } from '@/utils/saved-view-utils';
+
+const STORAGE_PREFIX = 'chronocode:saved-views:';
+const DELETED_STORAGE_PREFIX = 'chronocode:saved-views-deleted:';
+
+const storageKey = (repoName: string) => `${STORAGE_PREFIX}${repoName}`;
+const deletedStorageKey = (repoName: string) => `${DELETED_STORAGE_PREFIX}${repoName}`;
+
+/**
+ * Reads the views saved in this browser for a repository, returning an empty list when missing or unreadable
+ */
+export const readLocalSavedViews = (repoName: string): SavedView[] => {
+  try {
+    const stored = localStorage.getItem(storageKey(repoName));
+    return stored ? parseSavedViews(JSON.parse(stored), repoName) : [];
+  } catch (error) {
+    console.error('Error reading saved views:', error);
+    return [];
+  }
+};
+
+/**
+ * Stores the views of a repository in this browser, replacing the previous list
+ */
+export const writeLocalSavedViews = (repoName: string, views: SavedView[]): void => {
+  try {
+    if (views.length > 0) {
+      localStorage.setItem(storageKey(repoName), JSON.stringify(views));
+    } else {
+      localStorage.removeItem(storageKey(repoName));
+    }
+  } catch (error) {
+    // Saving is best effort, e.g. storage may be full or disabled
+    console.error('Error writing saved views:', error);
+  }
+};
+
+/**
+ * Reads the ids of views deleted in this browser whose deletion the data source may not have seen yet
+ */
+export const readDeletedSavedViewIds = (repoName: string): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(deletedStorageKey(repoName)) || '[]');
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : [];
+  } catch (error) {
+    console.error('Error reading deleted saved views:', error);
+    return [];
+  }
+};
+
+/**
+ * Stores the ids of deleted views of a repository, replacing the previous list
+ */
+export const writeDeletedSavedViewIds = (repoName: string, ids: string[]): void => {
+  try {
+    if (ids.length > 0) {
+      localStorage.setItem(deletedStorageKey(repoName), JSON.stringify(ids));
+    } else {
+      localStorage.removeItem(deletedStorageKey(repoName));
+    }
+  } catch (error) {
+    console.error('Error writing deleted saved views:', error);
+  }
+};
@@ -0,0 +1,432 @@
+import { Commit } from '@/types';
+
+/**
+ * Client-side full-text index over commit messages and analyses, with Porter
+ * stemming, prefix and fuzzy (edit distance) matching and BM25 ranking.
+ * It is built in a Web Worker (see `search-index.worker.ts`) so indexing large
+ * histories doesn't block typing.
+ */
+
+/**
+ * Text of a commit in the order of `SEARCH_FIELD_WEIGHTS`
+ */
+export interface SearchDocument {
+  sha: string;
+  fields: string[];
+}
+
+// Weights of message, description, analysis title, idea and description, author and type
+const SEARCH_FIELD_WEIGHTS = [2.5, 1, 3, 1.5, 1, 0.5, 0.5];
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Score factors of words that only match a query word by prefix or with typos
+const PREFIX_FACTOR = 0.7;
+const FUZZY_FACTOR = 0.4;
+// Expansions per query word, so a short prefix doesn't pull in the whole vocabulary
+const MAX_EXPANSIONS = 50;
+
+export interface SearchIndex {
+  shas: string[];
+  /** Weighted length of every document */
+  lengths: Float64Array;
+  averageLength: number;
+  /** Postings of every stem as flat `[document, weighted frequency, ...]` pairs */
+  postings: Map<string, number[]>;
+  /** Every indexed word, sorted, for prefix and fuzzy lookups */
+  words: string[];
+  stemByWord: Map<string, string>;
+  wordsByStem: Map<string, string[]>;
+}
+
+export interface TermMatches {
+  /** SHAs of the matching commits, best first, and their scores */
+  shas: string[];
+  scores: number[];
+}
+
+export type SearchWorkerRequest =
+  | { type: 'index'; documents: SearchDocument[] }
+  | { type: 'search'; id: number; terms: string[] };
+
+export interface SearchWorkerResponse {
+  type: 'results';
+  id: number;
+  /** Matches of each searched term, in request order */
+  results: TermMatches[];
+  /** Indexed words the terms matched, used to highlight them */
+  highlights: string[];
+}
+
+/**
+ * Gets the indexed text of a commit
+ */
+export const toSearchDocument = (commit: Commit): SearchDocument => {
+  const analysis = (commit.commit_analyses || commit.commit_analises || [])[0];
+  return {
+    sha: commit.sha,
+    fields: [
+      commit.message,
+      commit.description,
+      analysis?.title || '',
+      analysis?.idea || '',
+      analysis?.description || '',
+      commit.author,
+      analysis?.type || '',
+    ],
+  };
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Splits text into lowercase words with their positions
+ */
+export const tokenizeWords = (text: string): { word: string; start: number; end: number }[] =>
+  Array.from(text.matchAll(WORD_PATTERN), match => ({
+    word: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+const isConsonant = (word: string, index: number): boolean => {
+  const char = word[index];
+  if ('aeiou'.includes(char)) return false;
+  return char === 'y' ? index === 0 || !isConsonant(word, index - 1) : true;
+};
+
+// Number of vowel-consonant sequences in a stem (Porter's m)
+const measure = (stem: string): number => {
+  let count = 0;
+  let index = 0;
+  while (index < stem.length && isConsonant(stem, index)) index++;
+  while (index < stem.length) {
+    while (index < stem.length && !isConsonant(stem, index)) index++;
+    if (index >= stem.length) break;
+    while (index < stem.length && isConsonant(stem, index)) index++;
+    count++;
+  }
+  return count;
+};
+
+const hasVowel = (stem: string) => Array.from(stem).some((_, index) => !isConsonant(stem, index));
+
+const endsWithDoubleConsonant = (word: string) =>
+  word.length >= 2 && word[word.length - 1] === word[word.length - 2] && isConsonant(word, word.length - 1);
+
+// Consonant-vowel-consonant ending where the last consonant isn't w, x or y
+const endsWithCvc = (word: string) => {
+  const length = word.length;
+  return length >= 3 &&
+    isConsonant(word, length - 3) &&
+    !isConsonant(word, length - 2) &&
+    isConsonant(word, length - 1) &&
+    !'wxy'.includes(word[length - 1]);
+};
+
+const STEP2_SUFFIXES: [string, string][] = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'], ['bli', 'ble'],
+  ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'], ['ization', 'ize'], ['ation', 'ate'],
+  ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'],
+  ['iviti', 'ive'], ['biliti', 'ble'], ['logi', 'log'],
+];
+const STEP3_SUFFIXES: [string, string][] = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+const STEP4_SUFFIXES = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent', 'ion', 'ou', 'ism', 'ate',
+  'iti', 'ous', 'ive', 'ize',
+];
+
+// Longest suffix of `word` in `suffixes`
+const findSuffix = <T extends string | [string, string]>(word: string, suffixes: T[]): T | undefined => {
+  let longest: T | undefined;
+  suffixes.forEach(entry => {
+    const suffix = typeof entry === 'string' ? entry : entry[0];
+    const longestLength = longest === undefined ? -1 : (typeof longest === 'string' ? longest : longest[0]).length;
+    if (word.endsWith(suffix) && suffix.length > longestLength) longest = entry;
+  });
+  return longest;
+};
+
+/**
+ * Reduces an English word to its stem with the Porter algorithm, e.g.
+ * `fixes`, `fixed` and `fixing` all become `fix`. Words with digits or
+ * non-ASCII letters are returned unchanged.
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word;
+  let result = word;
+
+  // Step 1a: plurals
+  if (result.endsWith('sses')) result = result.slice(0, -2);
+  else if (result.endsWith('ies')) result = result.slice(0, -2);
+  else if (!result.endsWith('ss') && result.endsWith('s')) result = result.slice(0, -1);
+
+  // Step 1b: past tenses and gerunds
+  if (result.endsWith('eed')) {
+    if (measure(result.slice(0, -3)) > 0) result = result.slice(0, -1);
+  } else {
+    const suffix = result.endsWith('ed') ? 'ed' : result.endsWith('ing') ? 'ing' : null;
+    const base = suffix ? result.slice(0, -suffix.length) : '';
+    if (suffix && hasVowel(base)) {
+      result = base;
+      if (result.endsWith('at') || result.endsWith('bl') || result.endsWith('iz')) {
+        result += 'e';
+      } else if (endsWithDoubleConsonant(result) && !/[lsz]$/.test(result)) {
+        result = result.slice(0, -1);
+      } else if (measure(result) === 1 && endsWithCvc(result)) {
+        result += 'e';
+      }
+    }
+  }
+
+  // Step 1c
+  if (result.endsWith('y') && hasVowel(result.slice(0, -1))) result = `${result.slice(0, -1)}i`;
+
+  // Steps 2 and 3: double and single suffixes
+  [STEP2_SUFFIXES, STEP3_SUFFIXES].forEach(suffixes => {
+    const match = findSuffix(result, suffixes);
+    if (match && measure(result.slice(0, -match[0].length)) > 0) {
+      result = result.slice(0, -match[0].length) + match[1];
+    }
+  });
+
+  // Step 4: remaining suffixes
+  const suffix = findSuffix(result, STEP4_SUFFIXES);
+  if (suffix) {
+    const base = result.slice(0, -suffix.length);
+    if (measure(base) > 1 && (suffix !== 'ion' || /[st]$/.test(base))) result = base;
+  }
+
+  // Step 5: trailing e and double l
+  if (result.endsWith('e')) {
+    const base = result.slice(0, -1);
+    const baseMeasure = measure(base);
+    if (baseMeasure > 1 || (baseMeasure === 1 && !endsWithCvc(base))) result = base;
+  }
+  if (measure(result) > 1 && result.endsWith('ll')) result = result.slice(0, -1);
+
+  return result;
+};
+
+/**
+ * Builds an index over the fields of each document
+ */
+export const buildSearchIndex = (documents: SearchDocument[]): SearchIndex => {
+  const postings = new Map<string, number[]>();
+  const stemByWord = new Map<string, string>();
+  const lengths = new Float64Array(documents.length);
+
+  documents.forEach((document, index) => {
+    const frequencies = new Map<string, number>();
+    document.fields.forEach((text, field) => {
+      const weight = SEARCH_FIELD_WEIGHTS[field] ?? 1;
+      tokenizeWords(text || '').forEach(({ word }) => {
+        let wordStem = stemByWord.get(word);
+        if (wordStem === undefined) {
+          wordStem = stem(word);
+          stemByWord.set(word, wordStem);
+        }
+        frequencies.set(wordStem, (frequencies.get(wordStem) || 0) + weight);
+        lengths[index] += weight;
+      });
+    });
+
+    frequencies.forEach((frequency, wordStem) => {
+      const list = postings.get(wordStem);
+      if (list) {
+        list.push(index, frequency);
+      } else {
+        postings.set(wordStem, [index, frequency]);
+      }
+    });
+  });
+
+  const wordsByStem = new Map<string, string[]>();
+  stemByWord.forEach((wordStem, word) => {
+    const words = wordsByStem.get(wordStem);
+    if (words) {
+      words.push(word);
+    } else {
+      wordsByStem.set(wordStem, [word]);
+    }
+  });
+
+  return {
+    shas: documents.map(document => document.sha),
+    lengths,
+    averageLength: lengths.reduce((sum, length) => sum + length, 0) / Math.max(1, documents.length),
+    postings,
+    words: Array.from(stemByWord.keys()).sort(),
+    stemByWord,
+    wordsByStem,
+  };
+};
+
+/**
+ * Levenshtein distance between two words, or `max + 1` once it exceeds `max`
+ */
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// First index of `words` not sorting before `prefix`
+const lowerBoundWord = (words: string[], prefix: string): number => {
+  let low = 0;
+  let high = words.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (words[mid] < prefix) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+/**
+ * Gets the stems a query word matches, with their score factors:
+ * its own stem, words it's a prefix of and words one or two typos away
+ */
+const expandWord = (index: SearchIndex, word: string): Map<string, number> => {
+  const stems = new Map<string, number>();
+  const add = (wordStem: string, factor: number) => {
+    if (index.postings.has(wordStem) && factor > (stems.get(wordStem) || 0)) stems.set(wordStem, factor);
+  };
+  add(stem(word), 1);
+
+  if (word.length >= 2) {
+    const start = lowerBoundWord(index.words, word);
+    for (let i = start; i < index.words.length && i - start < MAX_EXPANSIONS && index.words[i].startsWith(word); i++) {
+      add(index.stemByWord.get(index.words[i])!, PREFIX_FACTOR);
+    }
+  }
+
+  if (word.length >= 4) {
+    const maxDistance = word.length >= 8 ? 2 : 1;
+    let expansions = 0;
+    for (const candidate of index.words) {
+      if (expansions >= MAX_EXPANSIONS) break;
+      // Typos rarely hit the first letter, and skipping those words keeps the scan cheap
+      if (Math.abs(candidate.length - word.length) > maxDistance || candidate[0] !== word[0]) continue;
+      if (editDistance(word, candidate, maxDistance) <= maxDistance) {
+        add(index.stemByWord.get(candidate)!, FUZZY_FACTOR);
+        expansions++;
+      }
+    }
+  }
+
+  return stems;
+};
+
+/**
+ * Finds the documents matching every word of a search term, ranked by BM25.
+ * `highlights` collects the indexed words that matched.
+ */
+export const searchIndex = (index: SearchIndex, term: string, highlights = new Set<string>()): TermMatches => {
+  const words = tokenizeWords(term).map(({ word }) => word);
+  if (words.length === 0 || index.shas.length === 0) return { shas: [], scores: [] };
+
+  let scores: Map<number, number> | null = null;
+  for (const word of words) {
+    const wordScores = new Map<number, number>();
+    expandWord(index, word).forEach((factor, wordStem) => {
+      index.wordsByStem.get(wordStem)?.forEach(match => highlights.add(match));
+      const list = index.postings.get(wordStem)!;
+      const documentCount = list.length / 2;
+      const idf = Math.log(1 + (index.shas.length - documentCount + 0.5) / (documentCount + 0.5));
+
+      for (let i = 0; i < list.length; i += 2) {
+        const document = list[i];
+        const frequency = list[i + 1];
+        const norm = K1 * (1 - B + B * (index.lengths[document] / (index.averageLength || 1)));
+        const score = factor * idf * ((frequency * (K1 + 1)) / (frequency + norm));
+        // A document matched through several expansions counts its best one
+        if (score > (wordScores.get(document) || 0)) wordScores.set(document, score);
+      }
+    });
+
+    // Every word has to match
+    if (scores === null) {
+      scores = wordScores;
+    } else {
+      const previous: Map<number, number> = scores;
+      scores = new Map();
+      previous.forEach((score, document) => {
+        const wordScore = wordScores.get(document);
+        if (wordScore !== undefined) scores!.set(document, score + wordScore);
+      });
+    }
+    if (scores.size === 0) break;
+  }
+
+  const ranked = Array.from(scores || []).sort((a, b) => b[1] - a[1]);
+  return {
+    shas: ranked.map(([document]) => index.shas[document]),
+    scores: ranked.map(([, score]) => score),
+  };
+};
+
+/**
+ * Splits text into plain and highlighted parts, highlighting `words`
+ * (lowercase). With `maxLength`, text with a highlight is cut to a snippet
+ * around the first one.
+ */
+export const getHighlightedParts = (
+  text: string,
+  words: Set<string>,
+  maxLength?: number
+): { text: string; highlight: boolean }[] => {
+  const ranges = words.size > 0 ? tokenizeWords(text).filter(({ word }) => words.has(word)) : [];
+  let start = 0;
+  let end = text.length;
+
+  if (maxLength && ranges.length > 0 && text.length > maxLength) {
+    // Start a little before the first match, on a word boundary
+    const anchor = ranges[0]?.start ?? 0;
+    start = Math.max(0, Math.min(anchor - Math.floor(maxLength / 4), text.length - maxLength));
+    if (start > 0) start = text.lastIndexOf(' ', start) + 1;
+    end = Math.min(text.length, start + maxLength);
+  }
+
+  const parts: { text: string; highlight: boolean }[] = [];
+  let position = start;
+  ranges
+    .filter(range => range.start >= start && range.end <= end)
+    .forEach(range => {
+      if (range.start > position) parts.push({ text: text.slice(position, range.start), highlight: false });
+      parts.push({ text: text.slice(range.start, range.end), highlight: true });
+      position = range.end;
+    });
+  if (position < end) parts.push({ text: text.slice(position, end), highlight: false });
+
+  if (start > 0) parts.unshift({ text: '…', highlight: false });
+  if (end < text.length) parts.push({ text: '…', highlight: false });
+  return parts;
+};
+
+/**
+ * Picks the first text containing one of `words` (lowercase), e.g. to show
+ * the part of a commit a search matched, falling back to the first non-empty text
+ */
+export const pickHighlightedText = (texts: (string | null | undefined)[], words: string[] = []): string => {
+  const wordSet = new Set(words);
+  const highlighted = wordSet.size > 0
+    ? texts.find(text => text && tokenizeWords(text).some(({ word }) => wordSet.has(word)))
+    : null;
+  return highlighted || texts.find(Boolean) || '';
+};
@@ -0,0 +1,21 @@
+import { buildSearchIndex, searchIndex, SearchIndex, SearchWorkerRequest, SearchWorkerResponse } from './search-index';
+
+// Builds the full-text index off the main thread and answers searches against it
+let index: SearchIndex = buildSearchIndex([]);
+
+self.addEventListener('message', (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'index') {
+    index = buildSearchIndex(request.documents);
+    return;
+  }
+
+  const highlights = new Set<string>();
+  const response: SearchWorkerResponse = {
+    type: 'results',
+    id: request.id,
+    results: request.terms.map(term => searchIndex(index, term, highlights)),
+    highlights: Array.from(highlights),
+  };
+  self.postMessage(response);
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { parseSearchFilters } from '@/lib/search-query';
+
+describe('parseSearchFilters', () => {
+  it('spells authors like the known author, ignoring case', () => {
+    const filters = parseSearchFilters('author:alice OR author:"jane doe" OR author:unknown', ['Alice', 'Jane Doe']);
+
+    expect(filters.authors).toEqual(['Alice', 'Jane Doe', 'unknown']);
+  });
+
+  it('keeps authors as typed without known authors', () => {
+    expect(parseSearchFilters('author:alice').authors).toEqual(['alice']);
+  });
+
+  it('leaves AND-ed author terms in the search term', () => {
+    const filters = parseSearchFilters('author:alice type:bug (author:bob OR author:carol)', ['Alice']);
+
+    expect(filters.authors).toEqual([]);
+    expect(filters.types).toEqual(['BUG']);
+    expect(filters.searchTerm).toBe('author:alice (author:bob OR author:carol)');
+  });
+});
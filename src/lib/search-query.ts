@@ -0,0 +1,458 @@
+import { endOfDay, format, isValid, parseISO, startOfDay } from 'date-fns';
+import { Commit, CommitType, TimelineFilters } from '@/types';
+
+/**
+ * Search query language of the FilterBar, e.g.
+ * `type:bug author:alice after:2023-05-01 -chore "login error" sha:3f2a`.
+ *
+ * Terms are combined with AND, `OR` (or `|`) joins alternatives and binds
+ * tighter than AND, `-` negates a term or a parenthesized group, and double
+ * quotes keep phrases (and field values) together. Free text matches the
+ * message, description, author, analysis and type of a commit.
+ */
+
+export type SearchField = 'type' | 'author' | 'after' | 'before' | 'sha' | 'path';
+
+export const SEARCH_FIELDS: { field: SearchField; description: string }[] = [
+  { field: 'type', description: 'Commit type, e.g. type:bug,feature' },
+  { field: 'author', description: 'Author name' },
+  { field: 'after', description: 'On or after a date (YYYY-MM-DD)' },
+  { field: 'before', description: 'On or before a date (YYYY-MM-DD)' },
+  { field: 'sha', description: 'Commit SHA prefix' },
+  { field: 'path', description: 'Path of a changed file' },
+];
+
+const COMMIT_TYPES: CommitType[] = ['FEATURE', 'WARNING', 'MILESTONE', 'BUG', 'CHORE'];
+const MAX_COMPLETIONS = 8;
+
+export type SearchTokenKind = 'field' | 'value' | 'text' | 'phrase' | 'negation' | 'or' | 'open' | 'close';
+
+export interface SearchToken {
+  kind: SearchTokenKind;
+  text: string;
+  start: number;
+  end: number;
+  /** Set on values their field can't use, e.g. `type:foo` or `after:yesterday` */
+  invalid?: boolean;
+}
+
+interface SearchSpan {
+  /** Source range of the expression in the query */
+  start: number;
+  end: number;
+}
+
+export type SearchExpression = SearchSpan & (
+  /** `quoted` marks phrases, which match literally */
+  | { kind: 'term'; field: SearchField | null; value: string; quoted?: boolean }
+  | { kind: 'not'; operand: SearchExpression }
+  | { kind: 'and' | 'or'; operands: SearchExpression[] }
+);
+
+const isBoundary = (char: string) => /[\s()]/.test(char);
+
+const unquote = (text: string) => text.replace(/^"/, '').replace(/"$/, '');
+
+const toSearchField = (name: string): SearchField | null =>
+  SEARCH_FIELDS.find(({ field }) => field === name.toLowerCase())?.field || null;
+
+const toCommitType = (value: string): CommitType | null =>
+  COMMIT_TYPES.find(type => type === value.toUpperCase()) || null;
+
+/**
+ * Parses a `YYYY-MM-DD` (or `YYYY-MM`, `YYYY`) date in local time, returning null when invalid
+ */
+const parseSearchDate = (value: string): Date | null => {
+  if (!/^\d{4}(-\d{2}(-\d{2})?)?$/.test(value)) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+};
+
+const isValidValue = (field: SearchField, value: string): boolean => {
+  if (!value) return true;
+  switch (field) {
+    case 'type':
+      return value.split(',').every(part => !part || toCommitType(part));
+    case 'after':
+    case 'before':
+      return parseSearchDate(value) !== null;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Quotes a field value when it wouldn't survive tokenizing as a bare word
+ */
+export const quoteSearchValue = (value: string): string =>
+  /[\s(),"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+// End of the bare word or quoted string starting at `start`
+const readWord = (query: string, start: number): number => {
+  if (query[start] === '"') {
+    const close = query.indexOf('"', start + 1);
+    return close === -1 ? query.length : close + 1;
+  }
+  let end = start;
+  while (end < query.length && !isBoundary(query[end])) end++;
+  return end;
+};
+
+/**
+ * Splits a query into tokens. Every character outside whitespace belongs to a
+ * token, so the tokens can be used to highlight the query as it's typed.
+ */
+export const tokenizeSearchQuery = (query: string): SearchToken[] => {
+  const tokens: SearchToken[] = [];
+  const push = (kind: SearchTokenKind, start: number, end: number, invalid = false) => {
+    tokens.push({ kind, text: query.slice(start, end), start, end, ...(invalid && { invalid }) });
+  };
+
+  let index = 0;
+  while (index < query.length) {
+    const char = query[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      push(char === '(' ? 'open' : 'close', index, index + 1);
+      index++;
+      continue;
+    }
+    if (char === '-' && index + 1 < query.length && /[^\s)]/.test(query[index + 1])) {
+      push('negation', index, index + 1);
+      index++;
+      continue;
+    }
+
+    const end = readWord(query, index);
+    const word = query.slice(index, end);
+    const fieldMatch = word.match(/^([a-z]+):/i);
+    const field = fieldMatch && toSearchField(fieldMatch[1]);
+
+    if (char === '"') {
+      push('phrase', index, end);
+    } else if (word === 'OR' || word === '|') {
+      push('or', index, end);
+    } else if (field && fieldMatch) {
+      // Values are read separately so they can be quoted, e.g. `author:"Jane Doe"`
+      const valueStart = index + fieldMatch[0].length;
+      const valueEnd = readWord(query, valueStart);
+      push('field', index, valueStart);
+      push('value', valueStart, valueEnd, !isValidValue(field, unquote(query.slice(valueStart, valueEnd))));
+      index = valueEnd;
+      continue;
+    } else {
+      push('text', index, end);
+    }
+    index = end;
+  }
+
+  return tokens;
+};
+
+/**
+ * Parses a query into an expression tree. Malformed input (stray operators,
+ * unbalanced parentheses, fields without a value) is skipped rather than rejected,
+ * so half-typed queries still filter.
+ */
+export const parseSearchQuery = (query: string): SearchExpression => {
+  const tokens = tokenizeSearchQuery(query);
+  let position = 0;
+
+  const parseUnary = (): SearchExpression | null => {
+    const token = tokens[position];
+    if (!token || token.kind === 'close') return null;
+    position++;
+
+    switch (token.kind) {
+      case 'negation': {
+        const operand = parseUnary();
+        return operand && { kind: 'not', operand, start: token.start, end: operand.end };
+      }
+      case 'open': {
+        const group = parseAnd(true);
+        const close = tokens[position]?.kind === 'close' ? tokens[position++] : null;
+        const end = close ? close.end : group.end;
+        if (group.kind !== 'and' || group.operands.length === 0) return null;
+        return group.operands.length === 1
+          ? { ...group.operands[0], start: token.start, end }
+          : { ...group, start: token.start, end };
+      }
+      case 'field': {
+        const valueToken = tokens[position++];
+        const field = toSearchField(token.text.slice(0, -1))!;
+        const value = unquote(valueToken.text);
+        // Unquoted values can list alternatives, e.g. `type:bug,feature`
+        const values = valueToken.text.startsWith('"') ? [value] : value.split(',');
+        const terms = values
+          .filter(Boolean)
+          .map((termValue): SearchExpression => ({
+            kind: 'term',
+            field,
+            value: termValue,
+            start: token.start,
+            end: valueToken.end,
+          }));
+        if (terms.length === 0) return null;
+        return terms.length === 1 ? terms[0] : { kind: 'or', operands: terms, start: token.start, end: valueToken.end };
+      }
+      case 'phrase':
+      case 'text': {
+        const value = unquote(token.text);
+        if (!value) return null;
+        return { kind: 'term', field: null, value, start: token.start, end: token.end, quoted: token.kind === 'phrase' };
+      }
+      default:
+        // A stray `OR`
+        return null;
+    }
+  };
+
+  const parseOr = (): SearchExpression | null => {
+    const first = parseUnary();
+    const operands = first ? [first] : [];
+    while (tokens[position]?.kind === 'or') {
+      position++;
+      const next = parseUnary();
+      if (next) operands.push(next);
+    }
+    if (operands.length <= 1) return operands[0] || null;
+    return { kind: 'or', operands, start: operands[0].start, end: operands[operands.length - 1].end };
+  };
+
+  const parseAnd = (nested: boolean): SearchExpression => {
+    const operands: SearchExpression[] = [];
+    while (position < tokens.length) {
+      if (tokens[position].kind === 'close') {
+        if (nested) break;
+        // An unbalanced `)` at the top level
+        position++;
+        continue;
+      }
+      const operand = parseOr();
+      if (operand) operands.push(operand);
+    }
+    return {
+      kind: 'and',
+      operands,
+      start: operands[0]?.start ?? 0,
+      end: operands[operands.length - 1]?.end ?? 0,
+    };
+  };
+
+  return parseAnd(false);
+};
+
+/**
+ * Decides whether a commit matches a free-text term
+ */
+export type SearchTextMatcher = (commit: Commit, value: string) => boolean;
+
+/**
+ * Matches free text as a case-insensitive substring of the message,
+ * description, author, analysis or type of a commit
+ */
+export const matchesCommitText: SearchTextMatcher = (commit, value) => {
+  const analyses = commit.commit_analyses || commit.commit_analises || [];
+  const needle = value.toLowerCase();
+  return [
+    commit.message,
+    commit.description,
+    commit.author,
+    ...analyses.flatMap(analysis => [analysis.title, analysis.idea, analysis.description, analysis.type]),
+  ].some(text => text?.toLowerCase().includes(needle));
+};
+
+const matchesTerm = (commit: Commit, field: SearchField | null, value: string): boolean => {
+  const analyses = commit.commit_analyses || commit.commit_analises || [];
+  const needle = value.toLowerCase();
+
+  switch (field) {
+    case 'type':
+      // Prefixes match too, so `type:fea` already filters while typing
+      return analyses.some(analysis => analysis.type.toLowerCase().startsWith(needle));
+    case 'author':
+      return commit.author.toLowerCase() === needle;
+    case 'after': {
+      const date = parseSearchDate(value);
+      return !date || new Date(commit.date) >= startOfDay(date);
+    }
+    case 'before': {
+      const date = parseSearchDate(value);
+      return !date || new Date(commit.date) <= endOfDay(date);
+    }
+    case 'sha':
+      return commit.sha.toLowerCase().startsWith(needle);
+    case 'path':
+      return (commit.files || []).some(file => file.toLowerCase().includes(needle));
+    case null:
+      return matchesCommitText(commit, value);
+  }
+};
+
+/**
+ * Checks whether a commit matches a parsed query. Unquoted free text outside
+ * negations goes through `matchText`, e.g. a full-text index; phrases and
+ * excluded words always match literally, so fuzzy matches never hide commits.
+ */
+export const matchesSearchExpression = (
+  commit: Commit,
+  expression: SearchExpression,
+  matchText: SearchTextMatcher = matchesCommitText
+): boolean => {
+  switch (expression.kind) {
+    case 'and':
+      return expression.operands.every(operand => matchesSearchExpression(commit, operand, matchText));
+    case 'or':
+      return expression.operands.some(operand => matchesSearchExpression(commit, operand, matchText));
+    case 'not':
+      return !matchesSearchExpression(commit, expression.operand);
+    case 'term':
+      return expression.field === null && !expression.quoted
+        ? matchText(commit, expression.value)
+        : matchesTerm(commit, expression.field, expression.value);
+  }
+};
+
+/**
+ * Gets the free-text words of a query that `matchText` is used for,
+ * i.e. unquoted and not negated
+ */
+export const getSearchTextTerms = (query: string): string[] => {
+  const terms = new Set<string>();
+  const collect = (expression: SearchExpression) => {
+    if (expression.kind === 'and' || expression.kind === 'or') {
+      expression.operands.forEach(collect);
+    } else if (expression.kind === 'term' && expression.field === null && !expression.quoted) {
+      terms.add(expression.value);
+    }
+  };
+  collect(parseSearchQuery(query));
+  return Array.from(terms);
+};
+
+// The terms of an expression if it's one term or an OR of terms, all on `field`
+const getFieldTerms = (expression: SearchExpression, field: SearchField): string[] | null => {
+  const terms = expression.kind === 'or' ? expression.operands : [expression];
+  const values = terms.map(term => (term.kind === 'term' && term.field === field ? term.value : null));
+  return values.every((value): value is string => value !== null) ? values : null;
+};
+
+/**
+ * Parses a query into `TimelineFilters`. Top-level type, author and date terms
+ * become the filters the data source applies, and everything else stays in
+ * `searchTerm` as query text. Like the FilterBar menus, repeated `type:` terms
+ * are alternatives. A commit has one author, so authors only become filters
+ * when the query has a single `author:` term or OR of them; several AND-ed
+ * author terms stay in `searchTerm`. Data sources match authors exactly, so
+ * author values are spelled like the matching entry of `knownAuthors`,
+ * ignoring case (e.g. `author:alice` becomes `Alice`).
+ */
+export const parseSearchFilters = (query: string, knownAuthors: string[] = []): TimelineFilters => {
+  const filters: TimelineFilters = {
+    types: [],
+    authors: [],
+    dateRange: { from: null, to: null },
+    searchTerm: '',
+  };
+  const rest: string[] = [];
+  const root = parseSearchQuery(query);
+  const toKnownAuthor = (author: string) =>
+    knownAuthors.find(known => known.toLowerCase() === author.toLowerCase()) || author;
+
+  const operands = root.kind === 'and' ? root.operands : [root];
+  const isAuthorFilter = operands.filter(operand => getFieldTerms(operand, 'author')).length === 1;
+
+  operands.forEach(operand => {
+    const types = getFieldTerms(operand, 'type')?.map(toCommitType);
+    const authors = isAuthorFilter ? getFieldTerms(operand, 'author')?.map(toKnownAuthor) : null;
+    const date = operand.kind === 'term' && (operand.field === 'after' || operand.field === 'before')
+      ? parseSearchDate(operand.value)
+      : null;
+
+    if (types && types.every((type): type is CommitType => type !== null)) {
+      types.forEach(type => !filters.types.includes(type) && filters.types.push(type));
+    } else if (authors) {
+      authors.forEach(author => !filters.authors.includes(author) && filters.authors.push(author));
+    } else if (date && operand.kind === 'term' && operand.field === 'after') {
+      const from = startOfDay(date);
+      // Several bounds narrow the range
+      if (!filters.dateRange.from || from > filters.dateRange.from) filters.dateRange.from = from;
+    } else if (date) {
+      const to = endOfDay(date);
+      if (!filters.dateRange.to || to < filters.dateRange.to) filters.dateRange.to = to;
+    } else {
+      rest.push(query.slice(operand.start, operand.end));
+    }
+  });
+
+  filters.searchTerm = rest.join(' ');
+  return filters;
+};
+
+/**
+ * Formats `TimelineFilters` as a query, the inverse of `parseSearchFilters`
+ */
+export const formatSearchFilters = (filters: TimelineFilters): string => [
+  filters.types.length > 0 ? `type:${filters.types.map(type => type.toLowerCase()).join(',')}` : '',
+  filters.authors.map(author => `author:${quoteSearchValue(author)}`).join(' OR '),
+  filters.dateRange.from ? `after:${format(filters.dateRange.from, 'yyyy-MM-dd')}` : '',
+  filters.dateRange.to ? `before:${format(filters.dateRange.to, 'yyyy-MM-dd')}` : '',
+  filters.searchTerm.trim(),
+].filter(Boolean).join(' ');
+
+export interface SearchCompletion {
+  /** Text that replaces the completed range */
+  value: string;
+  label: string;
+  description?: string;
+}
+
+/**
+ * Gets completions for the word at `cursor`: field names, or the types and
+ * authors a field accepts. `from` and `to` are the range a completion replaces.
+ */
+export const getSearchCompletions = (
+  query: string,
+  cursor: number,
+  authors: string[]
+): { from: number; to: number; completions: SearchCompletion[] } => {
+  const tokens = tokenizeSearchQuery(query);
+  const touches = (token: SearchToken) => token.start <= cursor && cursor <= token.end;
+  const valueToken = tokens.find(token => token.kind === 'value' && touches(token));
+
+  if (valueToken) {
+    const field = toSearchField(tokens[tokens.indexOf(valueToken) - 1].text.slice(0, -1));
+    // Complete the last entry of a comma-separated list
+    const typed = query.slice(valueToken.start, cursor);
+    const from = field === 'type' ? valueToken.start + typed.lastIndexOf(',') + 1 : valueToken.start;
+    const prefix = unquote(query.slice(from, cursor)).toLowerCase();
+    const current = unquote(query.slice(from, valueToken.end)).toLowerCase();
+
+    const candidates: SearchCompletion[] = field === 'type'
+      ? COMMIT_TYPES
+        .filter(type => type.toLowerCase().startsWith(prefix))
+        .map(type => ({ value: type.toLowerCase(), label: type.toLowerCase() }))
+      : field === 'author'
+        ? authors
+          .filter(author => author.toLowerCase().includes(prefix))
+          .map(author => ({ value: quoteSearchValue(author), label: author }))
+        : [];
+    const completions = candidates.length === 1 && candidates[0].label.toLowerCase() === current ? [] : candidates;
+    return { from, to: valueToken.end, completions: completions.slice(0, MAX_COMPLETIONS) };
+  }
+
+  const textToken = tokens.find(token => token.kind === 'text' && touches(token));
+  const atWordStart = cursor === 0 || /[\s(-]/.test(query[cursor - 1]);
+  if (!textToken && !atWordStart) return { from: cursor, to: cursor, completions: [] };
+
+  const from = textToken ? textToken.start : cursor;
+  const to = textToken ? textToken.end : cursor;
+  const prefix = query.slice(from, cursor).toLowerCase();
+  const completions = SEARCH_FIELDS
+    .filter(({ field }) => field.startsWith(prefix))
+    .map(({ field, description }) => ({ value: `${field}:`, label: `${field}:`, description }));
+  return { from, to, completions };
+};
@@ -0,0 +1,119 @@
+import { Commit } from '@/types';
+
+const DB_NAME = 'chronocode';
+const DB_VERSION = 1;
+const STORE_NAME = 'timelines';
+
+/**
+ * Version of the cached timeline format. Bump it whenever the shape of `Commit`
+ * changes in a way old entries can't satisfy; mismatching entries are ignored.
+ */
+export const TIMELINE_CACHE_VERSION = 2;
+
+/** How long a cached timeline is considered fresh before it is revalidated */
+export const TIMELINE_STALE_MS = 5 * 60 * 1000;
+
+export interface CachedTimeline {
+  /** `<data source cache key>:<repo name>` */
+  key: string;
+  repoName: string;
+  source: string;
+  version: number;
+  /** The newest commits of the repository, newest first */
+  commits: Commit[];
+  /** Cursor for loading older history beyond `commits`, null when complete */
+  nextCursor: string | null;
+  /** Epoch milliseconds of the fetch that produced `commits` */
+  fetchedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const cacheKey = (source: string, repoName: string) => `${source}:${repoName}`;
+
+/**
+ * Reads a cached timeline, returning null when missing, from an older cache version or unreadable
+ */
+export const readCachedTimeline = async (source: string, repoName: string): Promise<CachedTimeline | null> => {
+  try {
+    const entry = await runTransaction<CachedTimeline | undefined>('readonly', store =>
+      store.get(cacheKey(source, repoName))
+    );
+
+    if (!entry || entry.version !== TIMELINE_CACHE_VERSION) return null;
+    return entry;
+  } catch (error) {
+    console.error('Error reading timeline cache:', error);
+    return null;
+  }
+};
+
+/**
+ * Stores the commits of a repository, replacing any previous entry
+ */
+export const writeCachedTimeline = async (
+  source: string,
+  repoName: string,
+  commits: Commit[],
+  nextCursor: string | null,
+  fetchedAt: number = Date.now()
+): Promise<void> => {
+  try {
+    const entry: CachedTimeline = {
+      key: cacheKey(source, repoName),
+      repoName,
+      source,
+      version: TIMELINE_CACHE_VERSION,
+      commits,
+      nextCursor,
+      fetchedAt,
+    };
+    await runTransaction('readwrite', store => store.put(entry));
+  } catch (error) {
+    // Caching is best effort, the timeline still works without it
+    console.error('Error writing timeline cache:', error);
+  }
+};
@@ -1,5 +1,8 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { configureForgeHosts } from './lib/forges'
+
+configureForgeHosts(import.meta.env.VITE_FORGE_HOSTS)
 
 createRoot(document.getElementById("root")!).render(<App />);
@@ -11,20 +11,21 @@ import {
   GitGraph, Search, MessageSquareText, FileCode, Brain, MessageCircleQuestion
 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
-import { checkRepoExists } from '@/lib/supabase';
+import { useDataSource } from '@/hooks/use-data-source';
 import FeaturesSection from '@/components/sections/features-section';
 import ChatSection from '@/components/sections/chat-section';
 
 const Index: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
+  const dataSource = useDataSource();
   
   const handleRepositorySubmit = async (url: string, repoName: string) => {
     setIsLoading(true);
     try {
       console.log('Checking if repository exists:', repoName);
       // Check if repository already exists in our database
-      const repoExists = await checkRepoExists(repoName);
+      const repoExists = await dataSource.checkRepoExists(repoName);
       console.log('Repository exists:', repoExists);
       
       if (repoExists) {
@@ -35,15 +36,14 @@ const Index: React.FC = () => {
         // Navigate to timeline page with repo name as parameter
         navigate(`/timeline?repo=${encodeURIComponent(repoName)}`);
       } else {
-        // Simulate API call for repository analysis
-        await new Promise(resolve => setTimeout(resolve, 2000));
+        const job = await dataSource.triggerAnalysis(repoName, url);
         
-        toast.success('Repository analyzed successfully!', {
-          description: 'You can now view the timeline with example data.',
+        toast.info('Starting repository analysis...', {
+          description: 'This may take several minutes to complete.',
         });
         
-        // Navigate to timeline page with example data flag
-        navigate(`/timeline?repo=${encodeURIComponent(repoName)}&example=true`);
+        // Navigate to timeline page, which follows the job's progress
+        navigate(`/timeline?repo=${encodeURIComponent(repoName)}&job=${encodeURIComponent(job.id)}`);
       }
     } catch (error) {
       console.error('Error analyzing repository:', error);
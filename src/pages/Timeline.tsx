@@ -1,341 +1,523 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { toast } from 'sonner';
 import Header from '@/components/layout/header';
 import Footer from '@/components/layout/footer';
 import Timeline from '@/components/ui/timeline';
+import TimelineMinimap from '@/components/ui/timeline-minimap';
+import CommitHeatmap from '@/components/ui/commit-heatmap';
+import CommitGraph from '@/components/ui/commit-graph';
+import CommitActivityChart from '@/components/ui/commit-activity-chart';
+import PlaybackControls from '@/components/ui/playback-controls';
 import FilterBar from '@/components/ui/filter-bar';
 import CommitCard from '@/components/ui/commit-card';
 import RepositoryInput from '@/components/ui/repository-input';
+import AnalysisProgress from '@/components/ui/analysis-progress';
 import FloatingChatButton from '@/components/ui/floating-chat-button';
 import { Separator } from '@/components/ui/separator';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Loader2, RefreshCw } from 'lucide-react';
-import { Commit, TimelineFilters, TimeScale, GroupBy } from '@/types';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { endOfDay, startOfDay } from 'date-fns';
+import { ArrowLeft, ArrowUp, CalendarDays, ChartColumnStacked, ChartGantt, CloudOff, GitGraph, Link2, Loader2, RefreshCw, Tag as TagIcon, X } from 'lucide-react';
+import {
+  CalendarColorBy,
+  Commit,
+  CommitType,
+  Tag,
+  TimelineFilters,
+  TimelineViewMode,
+  TimelineViewport,
+  TimelineViewState,
+  TimeScale,
+  GroupBy,
+  SavedView,
+} from '@/types';
+import { formatDate, formatViewportParam, parseViewportParam } from '@/utils/date-utils';
 import { filterCommits } from '@/utils/filter-utils';
-import { fetchCommitsForRepo, extractRepoNameFromUrl } from '@/lib/supabase';
+import { countCommitFacets, exampleCommits, exampleTags, matchesCommitPageQuery } from '@/lib/data-source';
+import { parseRepoName } from '@/lib/forges';
+import { useDataSource } from '@/hooks/use-data-source';
+import { useAnalysisJob } from '@/hooks/use-analysis-job';
+import { useRepoAuthors, useRepoBranches, useRepoCommits, useRepoFacets, useRepoTags } from '@/hooks/use-repo-commits';
+import { useLiveCommits } from '@/hooks/use-live-commits';
+import { PLAYBACK_SPEEDS, useTimelinePlayback } from '@/hooks/use-timeline-playback';
+import { useCommitSearch } from '@/hooks/use-commit-search';
+import { useSavedViews } from '@/hooks/use-saved-views';
+import { isAnalysisJobActive, mergeCommits } from '@/utils/analysis-utils';
+import { compareBranches } from '@/utils/branch-utils';
+import { getPreviousTag, getReleaseDateRange } from '@/utils/tag-utils';
+import { parseModuleGlobs } from '@/utils/path-utils';
+import { getViewStateKey, getViewStateParamsKey, parseViewStateParams, writeViewStateParams } from '@/utils/url-state-utils';
+import { readSavedView, toSavedViewQuery } from '@/utils/saved-view-utils';
+import { getSearchTextTerms } from '@/lib/search-query';
 
-const mockCommits: Commit[] = [
-  {
-    sha: '1',
-    created_at: '2023-05-10T10:00:00Z',
-    repo_name: 'owner/repo',
-    author: 'developer1',
-    author_url: 'https://github.com/developer1',
-    author_email: 'dev1@example.com',
-    date: '2023-05-10T10:00:00Z',
-    message: 'Initial commit',
-    url: 'https://github.com/owner/repo/commit/1',
-    description: 'Set up project structure and dependencies',
-    commit_analises: [
-      {
-        id: 'a1',
-        created_at: '2023-05-10T11:00:00Z',
-        repo_name: 'owner/repo',
-        title: 'Project Initialization',
-        idea: 'Setting up the foundational structure for the project',
-        description: 'This commit establishes the basic project structure, adding essential configuration files and dependencies needed to start development.',
-        commit_sha: '1',
-        type: 'MILESTONE'
-      }
-    ]
-  },
-  {
-    sha: '2',
-    created_at: '2023-05-12T10:00:00Z',
-    repo_name: 'owner/repo',
-    author: 'developer2',
-    author_url: 'https://github.com/developer2',
-    author_email: 'dev2@example.com',
-    date: '2023-05-12T10:00:00Z',
-    message: 'Add authentication module',
-    url: 'https://github.com/owner/repo/commit/2',
-    description: 'Implement user authentication with JWT',
-    commit_analises: [
-      {
-        id: 'a2',
-        created_at: '2023-05-12T11:00:00Z',
-        repo_name: 'owner/repo',
-        title: 'User Authentication System',
-        idea: 'Implementing secure user authentication',
-        description: 'This commit adds a complete authentication system using JWT tokens for secure user sessions. It includes login, registration, and password recovery functionality.',
-        commit_sha: '2',
-        type: 'FEATURE'
-      }
-    ]
-  },
-  {
-    sha: '3',
-    created_at: '2023-05-15T10:00:00Z',
-    repo_name: 'owner/repo',
-    author: 'developer1',
-    author_url: 'https://github.com/developer1',
-    author_email: 'dev1@example.com',
-    date: '2023-05-15T10:00:00Z',
-    message: 'Fix login error handling',
-    url: 'https://github.com/owner/repo/commit/3',
-    description: 'Improve error messages on login failure',
-    commit_analises: [
-      {
-        id: 'a3',
-        created_at: '2023-05-15T11:00:00Z',
-        repo_name: 'owner/repo',
-        title: 'Login Error Handling Improvement',
-        idea: 'Enhancing user experience by providing clearer error messages',
-        description: 'This commit improves the error handling during login attempts. It provides more specific error messages to help users understand why their login failed (invalid credentials, account locked, etc).',
-        commit_sha: '3',
-        type: 'BUG'
-      }
-    ]
-  },
-  {
-    sha: '4',
-    created_at: '2023-05-20T10:00:00Z',
-    repo_name: 'owner/repo',
-    author: 'developer3',
-    author_url: 'https://github.com/developer3',
-    author_email: 'dev3@example.com',
-    date: '2023-05-20T10:00:00Z',
-    message: 'Add user profile page',
-    url: 'https://github.com/owner/repo/commit/4',
-    description: 'Create user profile page with edit functionality',
-    commit_analises: [
-      {
-        id: 'a4',
-        created_at: '2023-05-20T11:00:00Z',
-        repo_name: 'owner/repo',
-        title: 'User Profile Page Implementation',
-        idea: 'Creating a comprehensive user profile management interface',
-        description: 'This commit adds a complete user profile page where users can view and edit their personal information, including profile picture, contact details, and preferences.',
-        commit_sha: '4',
-        type: 'FEATURE'
-      }
-    ]
-  },
-  {
-    sha: '5',
-    created_at: '2023-05-25T10:00:00Z',
-    repo_name: 'owner/repo',
-    author: 'developer2',
-    author_url: 'https://github.com/developer2',
-    author_email: 'dev2@example.com',
-    date: '2023-05-25T10:00:00Z',
-    message: 'Update dependencies',
-    url: 'https://github.com/owner/repo/commit/5',
-    description: 'Update all npm packages to latest versions',
-    commit_analises: [
-      {
-        id: 'a5',
-        created_at: '2023-05-25T11:00:00Z',
-        repo_name: 'owner/repo',
-        title: 'Dependency Update',
-        idea: 'Maintaining project health by updating dependencies',
-        description: 'This commit updates all npm packages to their latest versions to ensure the project has the latest features, performance improvements, and security patches.',
-        commit_sha: '5',
-        type: 'CHORE'
-      }
-    ]
-  },
-  {
-    sha: '6',
-    created_at: '2023-06-01T10:00:00Z',
-    repo_name: 'owner/repo',
-    author: 'developer1',
-    author_url: 'https://github.com/developer1',
-    author_email: 'dev1@example.com',
-    date: '2023-06-01T10:00:00Z',
-    message: 'Implement password strength checker',
-    url: 'https://github.com/owner/repo/commit/6',
-    description: 'Add functionality to check password strength during registration',
-    commit_analises: [
-      {
-        id: 'a6',
-        created_at: '2023-06-01T11:00:00Z',
-        repo_name: 'owner/repo',
-        title: 'Password Strength Validation',
-        idea: 'Enhancing security by enforcing strong passwords',
-        description: 'This commit adds a password strength checker during user registration to enforce strong password policies. It provides visual feedback to users about their password strength and specific suggestions for improvement.',
-        commit_sha: '6',
-        type: 'FEATURE'
-      }
-    ]
-  },
-  {
-    sha: '7',
-    created_at: '2023-06-05T10:00:00Z',
-    repo_name: 'owner/repo',
-    author: 'developer3',
-    author_url: 'https://github.com/developer3',
-    author_email: 'dev3@example.com',
-    date: '2023-06-05T10:00:00Z',
-    message: 'Fix potential XSS vulnerability',
-    url: 'https://github.com/owner/repo/commit/7',
-    description: 'Address XSS vulnerability in user input handling',
-    commit_analises: [
-      {
-        id: 'a7',
-        created_at: '2023-06-05T11:00:00Z',
-        repo_name: 'owner/repo',
-        title: 'XSS Vulnerability Fix',
-        idea: 'Addressing a critical security vulnerability',
-        description: 'This commit fixes a potential Cross-Site Scripting (XSS) vulnerability in the application by properly sanitizing user input and implementing appropriate content security policies.',
-        commit_sha: '7',
-        type: 'WARNING'
-      }
-    ]
-  },
-  {
-    sha: '8',
-    created_at: '2023-06-10T10:00:00Z',
-    repo_name: 'owner/repo',
-    author: 'developer2',
-    author_url: 'https://github.com/developer2',
-    author_email: 'dev2@example.com',
-    date: '2023-06-10T10:00:00Z',
-    message: 'Improve application performance',
-    url: 'https://github.com/owner/repo/commit/8',
-    description: 'Optimize database queries and implement caching',
-    commit_analises: [
-      {
-        id: 'a8',
-        created_at: '2023-06-10T11:00:00Z',
-        repo_name: 'owner/repo',
-        title: 'Performance Optimization',
-        idea: 'Enhancing application speed and responsiveness',
-        description: 'This commit significantly improves application performance by optimizing database queries, implementing a robust caching strategy, and reducing unnecessary computations in critical paths.',
-        commit_sha: '8',
-        type: 'FEATURE'
-      }
-    ]
-  },
-  {
-    sha: '9',
-    created_at: '2023-06-15T10:00:00Z',
-    repo_name: 'owner/repo',
-    author: 'developer1',
-    author_url: 'https://github.com/developer1',
-    author_email: 'dev1@example.com',
-    date: '2023-06-15T10:00:00Z',
-    message: 'Release v1.0.0',
-    url: 'https://github.com/owner/repo/commit/9',
-    description: 'Prepare for initial production release',
-    commit_analises: [
-      {
-        id: 'a9',
-        created_at: '2023-06-15T11:00:00Z',
-        repo_name: 'owner/repo',
-        title: 'Version 1.0.0 Release',
-        idea: 'First stable production release of the application',
-        description: 'This commit marks the first production-ready release (v1.0.0) of the application. It includes final version bumps, documentation updates, and release notes for users.',
-        commit_sha: '9',
-        type: 'MILESTONE'
-      }
-    ]
-  }
-];
+// Modules the `path` grouping places commits in; unmatched files fall back to their top-level directory
+const MODULE_GLOBS = parseModuleGlobs(import.meta.env.VITE_MODULE_GLOBS);
 
 const TimelinePage: React.FC = () => {
-  const [isLoading, setIsLoading] = useState(true);
-  const [commits, setCommits] = useState<Commit[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [filteredCommits, setFilteredCommits] = useState<Commit[]>([]);
-  const [filters, setFilters] = useState<TimelineFilters>({
-    types: [],
-    authors: [],
-    dateRange: { from: null, to: null },
-    searchTerm: ''
-  });
-  const [timeScale, setTimeScale] = useState<TimeScale>('week');
-  const [groupBy, setGroupBy] = useState<GroupBy>('type');
-  const [selectedCommit, setSelectedCommit] = useState<string | undefined>();
-  const [expandedCommit, setExpandedCommit] = useState<string | undefined>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Filters, scale, grouping, view mode and selection start from the URL so shared links open the same view
+  const [initialViewState] = useState(() => parseViewStateParams(searchParams));
+  const [filters, setFilters] = useState<TimelineFilters>(initialViewState.filters);
+  const [timeScale, setTimeScale] = useState<TimeScale>(initialViewState.timeScale);
+  const [groupBy, setGroupBy] = useState<GroupBy>(initialViewState.groupBy);
+  const [viewMode, setViewMode] = useState<TimelineViewMode>(initialViewState.viewMode);
+  const [calendarColorBy, setCalendarColorBy] = useState<CalendarColorBy>('total');
+  const [selectedCommit, setSelectedCommit] = useState<string | undefined>(initialViewState.selectedCommit);
+  const [expandedCommit, setExpandedCommit] = useState<string | undefined>(initialViewState.selectedCommit);
+  // Tag whose release the date range was set to
+  const [selectedRelease, setSelectedRelease] = useState<string | null>(initialViewState.selectedRelease);
+  const viewState = useMemo<TimelineViewState>(
+    () => ({ filters, timeScale, groupBy, viewMode, selectedCommit, selectedRelease }),
+    [filters, timeScale, groupBy, viewMode, selectedCommit, selectedRelease]
+  );
+  const viewStateKey = getViewStateKey(searchParams);
+  // Last view state key read from the URL, and the one the current state was last written as
+  const readViewStateKeyRef = useRef(viewStateKey);
+  const writtenViewStateKeyRef = useRef(getViewStateParamsKey(initialViewState));
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
+  const dataSource = useDataSource();
   const repoParam = searchParams.get('repo');
   const exampleParam = searchParams.get('example');
+  const jobParam = searchParams.get('job');
+  const branchParam = searchParams.get('branch');
+  // A second branch overlaid on the selected one
+  const compareParam = branchParam ? searchParams.get('compare') : null;
+  const viewParam = searchParams.get('view');
+  // Zoomed/panned time window, mirrored to the `view` URL parameter once interaction settles
+  const [viewport, setViewport] = useState<TimelineViewport | null>(() => parseViewportParam(viewParam));
+  const writtenViewParamRef = useRef<string | null>(viewParam);
+  // Incremental refresh jobs are tracked locally so finishing them merges new commits instead of reloading
+  const [refreshJob, setRefreshJob] = useState<{ id: string } | null>(null);
+  const { data: analysisJob } = useAnalysisJob(jobParam || refreshJob?.id);
+  const handledJobRef = useRef<string | null>(null);
+  // Commits are (re-)fetched once the job referenced in the URL has finished
+  const isAnalyzing = !!jobParam && (analysisJob === undefined || isAnalysisJobActive(analysisJob));
+  
+  // Type, author and date filters are applied by the data source; search stays client-side
+  const repoCommitsQuery = useRepoCommits(repoParam, { enabled: !isAnalyzing, filters, branch: branchParam });
+  const compareCommitsQuery = useRepoCommits(compareParam ? repoParam : null, {
+    enabled: !isAnalyzing,
+    filters,
+    branch: compareParam,
+  });
+  // Type and author counts for the filter menus, over the whole history rather than the loaded pages
+  const { data: repoFacets } = useRepoFacets(repoParam, { enabled: !isAnalyzing, filters, branch: branchParam });
+  const repoCommits = repoCommitsQuery.commits;
+  const isOffline = repoCommitsQuery.fetchStatus === 'paused';
+  // Example data is shown without a repository, or as a fallback when explicitly requested
+  const showExample = !repoParam ||
+    (exampleParam === 'true' && (repoCommitsQuery.isError || repoCommits?.length === 0));
+  const branchOverlay = useMemo(() => {
+    if (showExample || !branchParam || !compareParam || !repoCommits || !compareCommitsQuery.commits) return null;
+    return compareBranches(branchParam, repoCommits, compareParam, compareCommitsQuery.commits);
+  }, [showExample, branchParam, compareParam, repoCommits, compareCommitsQuery.commits]);
+  const commits = useMemo<Commit[]>(
+    () => showExample ? exampleCommits : branchOverlay?.commits || repoCommits || [],
+    [showExample, branchOverlay, repoCommits]
+  );
+  const isLoading = isSubmitting ||
+    (!showExample && !isAnalyzing && !isOffline && repoCommits === undefined && !repoCommitsQuery.isError);
+  const { data: repoAuthors } = useRepoAuthors(showExample ? null : repoParam);
+  const { data: repoBranches } = useRepoBranches(showExample ? null : repoParam);
+  const { data: repoTags } = useRepoTags(showExample ? null : repoParam);
+  const tags = useMemo<Tag[]>(() => showExample ? exampleTags : repoTags || [], [showExample, repoTags]);
+  const selectedReleaseTag = tags.find(tag => tag.name === selectedRelease) || null;
+  const previousReleaseTag = selectedReleaseTag ? getPreviousTag(tags, selectedReleaseTag) : null;
+  const {
+    updateCommits,
+    applyChangeEvents,
+    revalidate: revalidateCommits,
+    hasNextPage: hasEarlierHistory,
+    isFetchingNextPage: isLoadingEarlierHistory,
+    fetchNextPage,
+  } = repoCommitsQuery;
+  const { newCommitShas, clearNewCommits } = useLiveCommits(showExample ? null : repoParam, {
+    enabled: !!repoCommits,
+    applyChangeEvents,
+  });
+  const loadToastRef = useRef<string | null>(null);
   
   useEffect(() => {
-    const fetchData = async () => {
-      setIsLoading(true);
-      try {
-        // Check if we have a repository parameter
-        if (repoParam) {
-          console.log('Fetching data for repo:', repoParam, 'example:', exampleParam);
-          
-          try {
-            // First check if there's actual data in Supabase for this repo
-            const repoData = await fetchCommitsForRepo(repoParam);
-            
-            if (repoData && repoData.length > 0) {
-              console.log('Found real data in Supabase for repo:', repoParam);
-              setCommits(repoData);
-              toast.success(`Loaded ${repoData.length} commits for ${repoParam}`);
-            } 
-            // Only use example data if explicitly requested or no data found
-            else if (exampleParam === 'true') {
-              console.log('Using example data as requested for repo:', repoParam);
-              await new Promise(resolve => setTimeout(resolve, 1500));
-              setCommits(mockCommits);
-              toast.info('Showing example data for this repository', {
-                description: 'The actual analysis will be available soon.',
-              });
-            } else {
-              // No data found, show empty state
-              console.log('No data found in Supabase for repo:', repoParam);
-              setCommits([]);
-              toast.warning('No commit data found for this repository', {
-                description: 'Please try analyzing the repository again.',
-              });
-            }
-          } catch (error) {
-            console.error('Error fetching commits from Supabase:', error);
-            if (exampleParam === 'true') {
-              // Fallback to example data if there was an error
-              setCommits(mockCommits);
-              toast.info('Showing example data for this repository', {
-                description: 'The actual analysis will be available soon.',
-              });
-            } else {
-              setCommits([]);
-              toast.error('Error loading repository data', {
-                description: 'Please try again later.',
-              });
-            }
-          }
-        } else {
-          // No repo parameter, show example data
-          await new Promise(resolve => setTimeout(resolve, 1500));
-          setCommits(mockCommits);
-          toast.info('Showing example timeline data', {
-            description: 'Enter a GitHub repository URL to analyze real data.',
-          });
-        }
-      } catch (error) {
-        console.error('Error fetching commits:', error);
-        toast.error('Failed to load commits', {
+    const loadKey = `${repoParam}:${exampleParam}`;
+    if (isAnalyzing || loadToastRef.current === loadKey) return;
+    
+    if (!repoParam) {
+      toast.info('Showing example timeline data', {
+        description: 'Enter a Git repository URL to analyze real data.',
+      });
+    } else if (isOffline) {
+      if (repoCommits) {
+        toast.info('You are offline', {
+          description: `Showing the timeline cached on ${formatDate(new Date(repoCommitsQuery.dataUpdatedAt).toISOString(), 'MMM d, yyyy HH:mm')}.`,
+        });
+      } else {
+        toast.warning('You are offline', {
+          description: 'This repository has not been cached yet.',
+        });
+      }
+    } else if (repoCommitsQuery.isError) {
+      console.error('Error fetching commits from data source:', repoCommitsQuery.error);
+      if (showExample) {
+        toast.info('Showing example data for this repository', {
+          description: 'The actual analysis will be available soon.',
+        });
+      } else {
+        toast.error('Error loading repository data', {
           description: 'Please try again later.',
         });
-        setCommits([]);
-      } finally {
-        setIsLoading(false);
       }
-    };
+    } else if (repoCommitsQuery.isSuccess && !repoCommitsQuery.isFetching) {
+      if (repoCommits.length > 0) {
+        toast.success(`Loaded ${repoCommits.length} commits for ${repoParam}`);
+      } else if (showExample) {
+        toast.info('Showing example data for this repository', {
+          description: 'The actual analysis will be available soon.',
+        });
+      } else {
+        toast.warning('No commit data found for this repository', {
+          description: 'Please try analyzing the repository again.',
+        });
+      }
+    } else {
+      return;
+    }
+    
+    loadToastRef.current = loadKey;
+  }, [
+    repoParam,
+    exampleParam,
+    isAnalyzing,
+    isOffline,
+    showExample,
+    repoCommits,
+    repoCommitsQuery.isError,
+    repoCommitsQuery.error,
+    repoCommitsQuery.isSuccess,
+    repoCommitsQuery.isFetching,
+    repoCommitsQuery.dataUpdatedAt,
+  ]);
+  
+  useEffect(() => {
+    if (!analysisJob || isAnalysisJobActive(analysisJob)) return;
+    
+    const jobKey = `${analysisJob.id}:${analysisJob.status}`;
+    if (handledJobRef.current === jobKey) return;
+    handledJobRef.current = jobKey;
+    
+    if (analysisJob.status === 'failed') {
+      toast.error('Repository analysis failed', {
+        description: analysisJob.error || 'Please try again later.',
+      });
+    } else if (refreshJob && analysisJob.id === refreshJob.id && !analysisJob.since_date) {
+      // Without a high-water mark the job analyzed everything, so reload page by page
+      toast.success('Analysis refreshed successfully!', {
+        description: `${analysisJob.commits_analyzed} commits have been analyzed.`,
+      });
+      revalidateCommits();
+      setRefreshJob(null);
+    } else if (refreshJob && analysisJob.id === refreshJob.id) {
+      const since = analysisJob.since_date;
+      const mergeNewCommits = async () => {
+        try {
+          // The job's high-water mark is the repository's, independent of the filters on screen
+          const newCommits = await dataSource.fetchCommitsForRepo(analysisJob.repo_name, { since });
+          // Each cached variant only takes the new commits matching its branch and filters
+          updateCommits((current, query) =>
+            mergeCommits(current, newCommits.filter(commit => matchesCommitPageQuery(commit, query))).commits
+          );
+          
+          toast.success('Analysis refreshed successfully!', {
+            description: newCommits.length > 0
+              ? `Added ${newCommits.length} new commit${newCommits.length === 1 ? '' : 's'}.`
+              : 'No new commits since the last analysis.',
+          });
+        } catch (error) {
+          console.error('Error loading new commits:', error);
+          toast.error('Failed to load new commits', {
+            description: 'Please try again later.',
+          });
+        } finally {
+          setRefreshJob(null);
+        }
+      };
+      
+      mergeNewCommits();
+    } else {
+      toast.success('Analysis completed successfully!', {
+        description: `${analysisJob.commits_analyzed} commits have been analyzed.`,
+      });
+      revalidateCommits();
+      
+      // The job is done, drop it from the URL so reloads don't follow it again
+      setSearchParams(params => {
+        params.delete('job');
+        return params;
+      }, { replace: true });
+    }
+  }, [analysisJob, refreshJob, dataSource, setSearchParams, updateCommits, revalidateCommits]);
+  
+  // A date window is bounded, so load all of its history instead of waiting for the user
+  useEffect(() => {
+    if (filters.dateRange.from && hasEarlierHistory && !isLoadingEarlierHistory) {
+      fetchNextPage();
+    }
+  }, [filters.dateRange.from, hasEarlierHistory, isLoadingEarlierHistory, fetchNextPage]);
+  
+  const {
+    hasNextPage: hasEarlierCompareHistory,
+    isFetchingNextPage: isLoadingEarlierCompareHistory,
+    fetchNextPage: fetchNextComparePage,
+  } = compareCommitsQuery;
+  
+  useEffect(() => {
+    if (filters.dateRange.from && hasEarlierCompareHistory && !isLoadingEarlierCompareHistory) {
+      fetchNextComparePage();
+    }
+  }, [filters.dateRange.from, hasEarlierCompareHistory, isLoadingEarlierCompareHistory, fetchNextComparePage]);
+  
+  const handleLoadEarlierHistory = () => {
+    if (hasEarlierHistory) fetchNextPage();
+    if (compareParam && hasEarlierCompareHistory) fetchNextComparePage();
+  };
+  
+  // Follow `view` changes made outside the timeline, e.g. back navigation or a new repository
+  useEffect(() => {
+    if (viewParam === writtenViewParamRef.current) return;
+    writtenViewParamRef.current = viewParam;
+    setViewport(parseViewportParam(viewParam));
+  }, [viewParam]);
+  
+  // Same for the view state, e.g. back/forward navigation between views or a pasted link
+  useEffect(() => {
+    if (viewStateKey === readViewStateKeyRef.current) return;
+    readViewStateKeyRef.current = viewStateKey;
+    
+    const nextViewState = parseViewStateParams(searchParams);
+    writtenViewStateKeyRef.current = getViewStateParamsKey(nextViewState);
+    setFilters(nextViewState.filters);
+    setTimeScale(nextViewState.timeScale);
+    setGroupBy(nextViewState.groupBy);
+    setViewMode(nextViewState.viewMode);
+    setSelectedCommit(nextViewState.selectedCommit);
+    setExpandedCommit(nextViewState.selectedCommit);
+    setSelectedRelease(nextViewState.selectedRelease);
+  }, [viewStateKey, searchParams]);
+  
+  // Both are written together once interaction settles. View state changes add a
+  // history entry so back/forward restores them; zooming and panning only replace it.
+  useEffect(() => {
+    const nextViewParam = viewport ? formatViewportParam(viewport) : null;
+    const nextViewStateKey = getViewStateParamsKey(viewState);
+    const isNewView = nextViewStateKey !== writtenViewStateKeyRef.current;
+    if (nextViewParam === writtenViewParamRef.current && !isNewView) return;
+    
+    const timeout = setTimeout(() => {
+      writtenViewParamRef.current = nextViewParam;
+      writtenViewStateKeyRef.current = nextViewStateKey;
+      readViewStateKeyRef.current = nextViewStateKey;
+      setSearchParams(params => {
+        if (nextViewParam) {
+          params.set('view', nextViewParam);
+        } else {
+          params.delete('view');
+        }
+        return writeViewStateParams(params, viewState);
+      }, { replace: !isNewView });
+    }, 300);
+    
+    return () => clearTimeout(timeout);
+  }, [viewport, viewState, setSearchParams]);
+  
+  const handleCopyLink = async () => {
+    const params = writeViewStateParams(new URLSearchParams(searchParams), viewState);
+    if (viewport) {
+      params.set('view', formatViewportParam(viewport));
+    } else {
+      params.delete('view');
+    }
+    // Whoever opens the link shouldn't follow this session's analysis job
+    params.delete('job');
+    
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}?${params}`);
+      toast.success('Link copied to clipboard', {
+        description: 'It opens the timeline with the current filters and selection.',
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast.error('Failed to copy link', {
+        description: 'Please copy the address from the browser instead.',
+      });
+    }
+  };
+  
+  const handleTimeScaleChange = (scale: TimeScale) => {
+    setTimeScale(scale);
+    // A new scale changes the padding of the fitted view
+    setViewport(null);
+  };
+  
+  const handleFilterChange = (nextFilters: TimelineFilters) => {
+    // Picking another date range leaves the release view
+    if (nextFilters.dateRange.from !== filters.dateRange.from || nextFilters.dateRange.to !== filters.dateRange.to) {
+      setSelectedRelease(null);
+    }
+    setFilters(nextFilters);
+  };
+  
+  // Picking a day on the calendar narrows the timeline to that day
+  const handleDaySelect = (day: Date) => {
+    handleFilterChange({ ...filters, dateRange: { from: startOfDay(day), to: endOfDay(day) } });
+    setViewport(null);
+    setViewMode('timeline');
+  };
+  
+  // Brushing the insights charts narrows the date range; their legends toggle types
+  const handleChartRangeSelect = (from: Date, to: Date) => {
+    handleFilterChange({ ...filters, dateRange: { from, to } });
+    setViewport(null);
+  };
+  
+  const handleChartTypesChange = (types: CommitType[]) => {
+    handleFilterChange({ ...filters, types });
+  };
+  
+  const handleTagSelect = (tag: Tag) => {
+    if (selectedRelease === tag.name) {
+      handleClearRelease();
+      return;
+    }
     
-    fetchData();
-  }, [repoParam, exampleParam]);
+    setSelectedRelease(tag.name);
+    setFilters(current => ({ ...current, dateRange: getReleaseDateRange(tags, tag) }));
+  };
+  
+  const handleClearRelease = () => {
+    setSelectedRelease(null);
+    setFilters(current => ({ ...current, dateRange: { from: null, to: null } }));
+  };
+  
+  const savedViews = useSavedViews(repoParam);
+  const savedViewQuery = toSavedViewQuery({ filters, timeScale, groupBy });
+  const activeSavedView = savedViews.views.find(view => view.query === savedViewQuery);
+  
+  const applySavedView = (view: SavedView) => {
+    const { filters: viewFilters, timeScale: viewTimeScale, groupBy: viewGroupBy } = readSavedView(view);
+    setSelectedRelease(null);
+    setFilters(viewFilters);
+    setTimeScale(viewTimeScale);
+    setGroupBy(viewGroupBy);
+    setViewport(null);
+  };
+  const applySavedViewRef = useRef(applySavedView);
+  applySavedViewRef.current = applySavedView;
+  
+  // A repository opened without a view in the URL starts from its default saved view,
+  // once the shared views have arrived so a default set elsewhere is honoured
+  const defaultViewRepoRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!repoParam || !savedViews.isSynced || defaultViewRepoRef.current === repoParam) return;
+    defaultViewRepoRef.current = repoParam;
+    
+    const defaultView = savedViews.views.find(view => view.is_default);
+    if (defaultView && !viewStateKey) applySavedViewRef.current(defaultView);
+  }, [repoParam, savedViews.isSynced, savedViews.views, viewStateKey]);
+  
+  const handleSavedViewSave = (name: string) => {
+    const view = savedViews.saveView(name, { filters, timeScale, groupBy });
+    if (view) toast.success(`Saved view "${view.name}"`);
+  };
+  
+  const handleSavedViewDelete = (viewId: string) => {
+    const view = savedViews.views.find(view => view.id === viewId);
+    savedViews.deleteView(viewId);
+    if (view) toast.success(`Deleted view "${view.name}"`);
+  };
+  
+  const handleSavedViewsImport = async (file: File) => {
+    try {
+      const count = savedViews.importViews(await file.text());
+      toast.success(`Imported ${count} saved view${count === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error importing saved views:', error);
+      toast.error('Failed to import saved views', {
+        description: 'The file is not a saved views export.',
+      });
+    }
+  };
+  
+  const handleSavedViewsExport = () => {
+    const url = URL.createObjectURL(new Blob([savedViews.exportViews()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(repoParam || 'timeline').replace(/\//g, '-')}-views.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+  
+  const handleBranchChange = (branch: string | null) => {
+    setSearchParams(params => {
+      if (branch) {
+        params.set('branch', branch);
+      } else {
+        params.delete('branch');
+      }
+      // Comparing a branch against itself shows nothing
+      if (!branch || params.get('compare') === branch) {
+        params.delete('compare');
+      }
+      return params;
+    });
+  };
+  
+  const handleCompareBranchChange = (branch: string | null) => {
+    setSearchParams(params => {
+      if (branch) {
+        params.set('compare', branch);
+      } else {
+        params.delete('compare');
+      }
+      return params;
+    });
+  };
+  
+  // Free-text search goes through the full-text index once it has answered
+  const searchTextTerms = useMemo(() => getSearchTextTerms(filters.searchTerm), [filters.searchTerm]);
+  const commitSearch = useCommitSearch(commits, searchTextTerms);
   
   useEffect(() => {
-    setFilteredCommits(filterCommits(commits, filters));
-  }, [commits, filters]);
+    setFilteredCommits(filterCommits(commits, filters, commitSearch?.matchText));
+  }, [commits, filters, commitSearch]);
+  
+  // Free text is matched in the browser, so while searching (and for the example commits)
+  // the commits on screen are counted here instead of asking the data source
+  const facets = useMemo(() => {
+    if (!showExample && !filters.searchTerm.trim()) return repoFacets;
+    const matching = filterCommits(commits, { ...filters, types: [], authors: [] }, commitSearch?.matchText);
+    return countCommitFacets(matching, { types: filters.types, authors: filters.authors });
+  }, [showExample, commits, filters, commitSearch, repoFacets]);
+  
+  // Search results are listed by relevance instead of date
+  const listedCommits = useMemo(() => {
+    if (!commitSearch) return filteredCommits;
+    const { scores } = commitSearch;
+    return [...filteredCommits].sort((a, b) => (scores.get(b.sha) || 0) - (scores.get(a.sha) || 0));
+  }, [filteredCommits, commitSearch]);
+  
+  const playback = useTimelinePlayback(filteredCommits, tags);
   
   const handleRepositorySubmit = async (url: string, repoName: string, repoExists = false) => {
-    setIsLoading(true);
+    setIsSubmitting(true);
     try {
       console.log('Handling repository submit:', repoName, 'exists:', repoExists);
       
       // First check if we already have data for this repo
       if (repoExists) {
-        console.log('Repository already exists in Supabase, navigating...');
+        console.log('Repository already exists in data source, navigating...');
         // If repo exists, navigate directly to timeline with the repo parameter only
         navigate(`/timeline?repo=${encodeURIComponent(repoName)}`);
         
@@ -343,12 +525,10 @@ const TimelinePage: React.FC = () => {
           description: 'Loading timeline from existing data.',
         });
       } else {
-        // If repo doesn't exist, we would normally start analysis
-        // For now, navigate with example=true as a placeholder
-        console.log('Repository not found in Supabase, showing example data...');
-        await new Promise(resolve => setTimeout(resolve, 2000));
+        console.log('Repository not found in data source, starting analysis...');
+        const job = await dataSource.triggerAnalysis(repoName, url);
         
-        navigate(`/timeline?repo=${encodeURIComponent(repoName)}&example=true`);
+        navigate(`/timeline?repo=${encodeURIComponent(repoName)}&job=${encodeURIComponent(job.id)}`);
         
         toast.info('Starting repository analysis...', {
           description: 'This may take several minutes to complete.',
@@ -360,7 +540,7 @@ const TimelinePage: React.FC = () => {
         description: 'Please try again later.',
       });
     } finally {
-      setIsLoading(false);
+      setIsSubmitting(false);
     }
   };
   
@@ -376,31 +556,41 @@ const TimelinePage: React.FC = () => {
     }, 100);
   };
   
-  const handleRefreshAnalysis = async () => {
-    if (!repoParam) return;
-    
-    setIsLoading(true);
+  const startAnalysis = async (repoName: string, incremental = false) => {
     try {
-      console.log('Refreshing analysis for repo:', repoParam);
-      // In a real scenario, this would trigger a backend process
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      toast.success('Analysis refreshed successfully!', {
-        description: 'New commits have been analyzed.',
-      });
+      console.log('Starting analysis for repo:', repoName, 'incremental:', incremental);
+      const repoUrl = parseRepoName(repoName)?.webUrl || `https://github.com/${repoName}`;
+      const job = await dataSource.triggerAnalysis(repoName, repoUrl, { incremental });
       
-      // Reload the current page to get fresh data
-      window.location.reload();
+      if (incremental) {
+        setRefreshJob({ id: job.id });
+      } else {
+        setSearchParams(params => {
+          params.set('job', job.id);
+          return params;
+        });
+      }
     } catch (error) {
-      console.error('Error refreshing analysis:', error);
-      toast.error('Failed to refresh analysis', {
+      console.error('Error starting analysis:', error);
+      toast.error('Failed to start analysis', {
         description: 'Please try again later.',
       });
-    } finally {
-      setIsLoading(false);
     }
   };
   
+  const handleRefreshAnalysis = () => {
+    if (!repoParam) return;
+    startAnalysis(repoParam, commits.length > 0);
+  };
+  
+  const handleDismissAnalysis = () => {
+    setRefreshJob(null);
+    setSearchParams(params => {
+      params.delete('job');
+      return params;
+    }, { replace: true });
+  };
+  
   const selectedCommitData = selectedCommit 
     ? commits.find(commit => commit.sha === selectedCommit)
     : undefined;
@@ -427,7 +617,7 @@ const TimelinePage: React.FC = () => {
             {repoParam ? `Timeline: ${repoParam}` : 'Repository Timeline'}
           </h1>
           
-          {repoParam && !isLoading && (
+          {repoParam && !isLoading && !isAnalyzing && !refreshJob && (
             <Button 
               onClick={handleRefreshAnalysis}
               variant="outline"
@@ -439,6 +629,22 @@ const TimelinePage: React.FC = () => {
           )}
         </div>
         
+        {repoParam && repoCommits && (isOffline || (repoCommitsQuery.isFetching && !isLoadingEarlierHistory)) && (
+          <p className="flex items-center text-sm text-muted-foreground -mt-4 mb-6 animate-fade-in">
+            {isOffline ? (
+              <>
+                <CloudOff className="mr-2 h-4 w-4" />
+                Offline · showing timeline cached on {formatDate(new Date(repoCommitsQuery.dataUpdatedAt).toISOString(), 'MMM d, yyyy HH:mm')}
+              </>
+            ) : (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Checking for timeline updates...
+              </>
+            )}
+          </p>
+        )}
+        
         <div className="mb-8 animate-slide-down">
           <RepositoryInput 
             onSubmit={handleRepositorySubmit} 
@@ -446,10 +652,19 @@ const TimelinePage: React.FC = () => {
           />
         </div>
         
+        {analysisJob && analysisJob.status !== 'succeeded' && (
+          <AnalysisProgress
+            job={analysisJob}
+            onRetry={() => startAnalysis(analysisJob.repo_name, analysisJob.incremental)}
+            onDismiss={handleDismissAnalysis}
+            className="mb-8"
+          />
+        )}
+        
         {isLoading ? (
           <div className="flex flex-col items-center justify-center py-20">
             <Loader2 className="h-12 w-12 text-primary animate-spin mb-4" />
-            <p className="text-muted-foreground">Analyzing repository commits...</p>
+            <p className="text-muted-foreground">Loading repository commits...</p>
           </div>
         ) : (
           <>
@@ -457,22 +672,170 @@ const TimelinePage: React.FC = () => {
               <>
                 <FilterBar 
                   commits={commits}
+                  availableAuthors={showExample ? undefined : repoAuthors}
                   filters={filters}
-                  onFilterChange={setFilters}
+                  onFilterChange={handleFilterChange}
+                  facets={facets}
                   timeScale={timeScale}
-                  onTimeScaleChange={setTimeScale}
+                  onTimeScaleChange={handleTimeScaleChange}
                   groupBy={groupBy}
                   onGroupByChange={setGroupBy}
+                  branches={showExample ? undefined : repoBranches}
+                  branch={branchParam}
+                  onBranchChange={handleBranchChange}
+                  compareBranch={compareParam}
+                  onCompareBranchChange={handleCompareBranchChange}
+                  savedViews={repoParam ? {
+                    views: savedViews.views,
+                    activeViewId: activeSavedView?.id,
+                    onSelect: applySavedView,
+                    onSave: handleSavedViewSave,
+                    onRename: savedViews.renameView,
+                    onDelete: handleSavedViewDelete,
+                    onDefaultChange: savedViews.setDefaultView,
+                    onImport: handleSavedViewsImport,
+                    onExport: handleSavedViewsExport,
+                  } : undefined}
                 />
                 
-                <Timeline 
-                  commits={filteredCommits}
-                  timeScale={timeScale}
-                  groupBy={groupBy}
-                  selectedCommit={selectedCommit}
-                  onCommitSelect={handleCommitSelect}
-                  className="mb-10 animate-scale-in"
-                />
+                {selectedReleaseTag && (
+                  <div className="flex items-center gap-2 mb-3 text-sm animate-fade-in">
+                    <TagIcon className="h-4 w-4 text-amber-500" />
+                    <span>
+                      Commits in <span className="font-medium">{selectedReleaseTag.name}</span>
+                      {previousReleaseTag ? ` since ${previousReleaseTag.name}` : ' (first release)'}
+                    </span>
+                    <Button variant="ghost" size="sm" className="h-7 px-2" onClick={handleClearRelease}>
+                      <X className="h-3 w-3 mr-1" />
+                      Show all
+                    </Button>
+                  </div>
+                )}
+                
+                {newCommitShas.length > 0 && (
+                  <div className="flex justify-center mb-3">
+                    <Button
+                      size="sm"
+                      className="rounded-full shadow-md animate-slide-down"
+                      onClick={() => {
+                        handleCommitSelect(newCommitShas[newCommitShas.length - 1]);
+                        clearNewCommits();
+                      }}
+                    >
+                      <ArrowUp className="mr-2 h-4 w-4" />
+                      {newCommitShas.length} new commit{newCommitShas.length === 1 ? '' : 's'}
+                    </Button>
+                  </div>
+                )}
+                
+                <div className="flex justify-end items-center gap-2 mb-3">
+                  <Button variant="outline" size="sm" onClick={handleCopyLink}>
+                    <Link2 className="h-4 w-4 mr-1" />
+                    Copy link to this view
+                  </Button>
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    variant="outline"
+                    value={viewMode}
+                    onValueChange={value => value && setViewMode(value as TimelineViewMode)}
+                    aria-label="View"
+                  >
+                    <ToggleGroupItem value="timeline" aria-label="Timeline view">
+                      <ChartGantt className="h-4 w-4 mr-1" />
+                      Timeline
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="calendar" aria-label="Calendar view">
+                      <CalendarDays className="h-4 w-4 mr-1" />
+                      Calendar
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="graph" aria-label="Graph view">
+                      <GitGraph className="h-4 w-4 mr-1" />
+                      Graph
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="insights" aria-label="Insights view">
+                      <ChartColumnStacked className="h-4 w-4 mr-1" />
+                      Insights
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+                
+                {viewMode === 'calendar' ? (
+                  <CommitHeatmap
+                    commits={filteredCommits}
+                    colorBy={calendarColorBy}
+                    onColorByChange={setCalendarColorBy}
+                    onDaySelect={handleDaySelect}
+                    className="mb-10 animate-scale-in"
+                  />
+                ) : viewMode === 'insights' ? (
+                  <CommitActivityChart
+                    commits={filteredCommits}
+                    timeScale={timeScale}
+                    types={filters.types}
+                    onTypesChange={handleChartTypesChange}
+                    onRangeSelect={handleChartRangeSelect}
+                    className="mb-10 animate-scale-in"
+                  />
+                ) : viewMode === 'graph' ? (
+                  <CommitGraph
+                    commits={filteredCommits}
+                    allCommits={commits}
+                    selectedCommit={selectedCommit}
+                    onCommitSelect={handleCommitSelect}
+                    className="mb-10 animate-scale-in"
+                  />
+                ) : (
+                  <>
+                    <PlaybackControls
+                      cursor={playback.cursor}
+                      isPlaying={playback.isPlaying}
+                      speed={playback.speed}
+                      speeds={PLAYBACK_SPEEDS}
+                      range={playback.range}
+                      stops={playback.stops}
+                      pausedAt={playback.pausedAt}
+                      tally={playback.tally}
+                      onPlay={playback.play}
+                      onPause={playback.pause}
+                      onStop={playback.stop}
+                      onSeek={playback.seek}
+                      onSpeedChange={playback.setSpeed}
+                      className="mb-3"
+                    />
+                    
+                    <Timeline 
+                      commits={filteredCommits}
+                      timeScale={timeScale}
+                      viewport={viewport}
+                      onViewportChange={setViewport}
+                      groupBy={groupBy}
+                      moduleGlobs={MODULE_GLOBS}
+                      selectedCommit={selectedCommit}
+                      onCommitSelect={handleCommitSelect}
+                      highlightedCommits={newCommitShas}
+                      hasEarlierHistory={!showExample && (hasEarlierHistory || (!!compareParam && hasEarlierCompareHistory))}
+                      isLoadingEarlierHistory={isLoadingEarlierHistory || isLoadingEarlierCompareHistory}
+                      onLoadEarlierHistory={handleLoadEarlierHistory}
+                      branchComparison={branchOverlay?.comparison}
+                      tags={tags}
+                      selectedTag={selectedRelease}
+                      onTagSelect={handleTagSelect}
+                      playbackCursor={playback.cursor}
+                      searchHighlights={commitSearch?.highlights}
+                      className="animate-scale-in"
+                    />
+                    
+                    <TimelineMinimap
+                      commits={filteredCommits}
+                      timeScale={timeScale}
+                      viewport={viewport}
+                      onViewportChange={setViewport}
+                      tags={tags}
+                      className="mt-2 mb-10 animate-scale-in"
+                    />
+                  </>
+                )}
                 
                 {selectedCommitData && (
                   <div className="mt-8 animation-delay-200 animate-fade-in">
@@ -480,6 +843,7 @@ const TimelinePage: React.FC = () => {
                     <CommitCard 
                       id={`commit-${selectedCommitData.sha}`}
                       commit={selectedCommitData}
+                      highlights={commitSearch?.highlights}
                       isExpanded={expandedCommit === selectedCommitData.sha}
                       onToggleExpand={() => {
                         if (expandedCommit === selectedCommitData.sha) {
@@ -493,13 +857,14 @@ const TimelinePage: React.FC = () => {
                 )}
                 
                 <div className="mt-8">
-                  <h2 className="text-xl font-semibold mb-4">Recent Commits</h2>
+                  <h2 className="text-xl font-semibold mb-4">{commitSearch ? 'Best Matches' : 'Recent Commits'}</h2>
                   <div className="grid grid-cols-1 gap-4 animation-delay-300 animate-fade-in">
-                    {filteredCommits.slice(0, 5).map((commit) => (
+                    {listedCommits.slice(0, 5).map((commit) => (
                       <CommitCard 
                         key={commit.sha}
                         id={`commit-${commit.sha}`}
                         commit={commit}
+                        highlights={commitSearch?.highlights}
                         isExpanded={expandedCommit === commit.sha}
                         onToggleExpand={() => {
                           if (expandedCommit === commit.sha) {
@@ -514,7 +879,7 @@ const TimelinePage: React.FC = () => {
                   </div>
                 </div>
               </>
-            ) : (
+            ) : !isAnalyzing && (
               <div className="text-center py-12">
                 <p className="text-muted-foreground mb-4">No commits match your current filters.</p>
                 <Button variant="outline" onClick={() => setFilters({
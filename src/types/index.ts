@@ -19,17 +19,64 @@ export interface Commit {
   created_at: string;
   repo_name: string;
   author: string;
+  // Profile URL of the author on the forge, empty when unknown
   author_url: string;
   author_email: string;
   date: string;
   message: string;
   url: string;
   description: string;
+  // Parent commit SHAs, in git order (first parent first)
+  parent_shas?: string[];
+  // Branches the commit is reachable from, e.g. ['main', 'release/1.x']
+  refs?: string[];
+  // Paths of the files the commit changed, relative to the repository root
+  files?: string[];
   // Support both property names for backward compatibility
   commit_analyses?: CommitAnalysis[];
   commit_analises?: CommitAnalysis[];
 }
 
+// Git tag (or release) pointing at a commit
+export interface Tag {
+  repo_name: string;
+  name: string;
+  // SHA of the tagged commit (peeled for annotated tags)
+  sha: string;
+  // Tagger date for annotated tags, commit date for lightweight ones
+  date: string;
+  // Annotation or release notes, null for lightweight tags
+  message: string | null;
+}
+
+// Analysis Jobs
+export type AnalysisJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface AnalysisJob {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  repo_name: string;
+  repo_url: string;
+  status: AnalysisJobStatus;
+  // Progress counts, updated while the job is running
+  commits_fetched: number;
+  commits_analyzed: number;
+  // Total number of commits to analyze, once known
+  commits_total: number | null;
+  error: string | null;
+  // Incremental jobs only process commits newer than the repo's high-water mark
+  incremental: boolean;
+  since_sha: string | null;
+  since_date: string | null;
+}
+
+// The newest commit covered by a previous analysis run
+export interface AnalysisHighWaterMark {
+  sha: string;
+  date: string;
+}
+
 // Repository Input
 export interface RepositoryInput {
   url: string;
@@ -48,16 +95,58 @@ export interface TimelineFilters {
 
 // Timeline View Options
 export type TimeScale = 'day' | 'week' | 'month' | 'quarter' | 'year';
-export type GroupBy = 'type' | 'author' | 'date';
+export type GroupBy = 'type' | 'author' | 'date' | 'path';
+export type TimelineViewMode = 'timeline' | 'calendar' | 'graph' | 'insights';
+// What the calendar heatmap counts: every commit or only one type
+export type CalendarColorBy = 'total' | CommitType;
+
+// Visible time window of the timeline, in epoch milliseconds
+export interface TimelineViewport {
+  start: number;
+  end: number;
+}
 
 export interface TimelineViewOptions {
   timeScale: TimeScale;
   groupBy: GroupBy;
 }
 
+// Everything a shared timeline link restores, besides the repository and viewport
+export interface TimelineViewState extends TimelineViewOptions {
+  filters: TimelineFilters;
+  viewMode: TimelineViewMode;
+  selectedCommit?: string;
+  // Tag whose release the date range was set to
+  selectedRelease: string | null;
+}
+
+// Filters, time scale and grouping saved under a name for one repository
+export interface SavedView {
+  id: string;
+  repo_name: string;
+  name: string;
+  // The saved options as URL parameters, see `@/utils/url-state-utils`
+  query: string;
+  // Applied when the repository's timeline opens without a view in the URL
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 // API Response
 export interface ApiResponse<T> {
   data: T;
   error: string | null;
   loading: boolean;
 }
+
+// Which side of a branch comparison a commit is on
+export type BranchMembership = 'both' | 'base' | 'compare';
+
+export interface BranchComparison {
+  base: string;
+  compare: string;
+  membership: Map<string, BranchMembership>;
+  // Newest commit shared by both branches, i.e. where they diverged
+  divergedAt: Commit | null;
+}
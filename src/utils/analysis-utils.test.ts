@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { Commit, CommitAnalysis } from '@/types';
+import type { RepoChangeEvent } from '@/lib/data-source';
+import { applyRepoChangeEvents, getAddedCommitShas } from '@/utils/analysis-utils';
+
+const createCommit = (sha: string, refs: string[], analyses: CommitAnalysis[] = []): Commit => ({
+  sha,
+  created_at: '2026-01-01T12:00:00Z',
+  repo_name: 'acme/widgets',
+  author: 'Ada',
+  author_url: '',
+  author_email: 'ada@example.com',
+  date: '2026-01-01T12:00:00Z',
+  message: `Commit ${sha}`,
+  url: '',
+  description: '',
+  refs,
+  commit_analyses: analyses,
+});
+
+const createAnalysis = (commitSha: string): CommitAnalysis => ({
+  id: `analysis-${commitSha}`,
+  created_at: '2026-01-01T12:00:00Z',
+  repo_name: 'acme/widgets',
+  title: 'Fix crash',
+  idea: '',
+  description: '',
+  commit_sha: commitSha,
+  type: 'BUG',
+});
+
+const loaded = [createCommit('a', ['main'])];
+const events: RepoChangeEvent[] = [
+  { kind: 'commit', commit: createCommit('b', ['main']) },
+  { kind: 'commit', commit: createCommit('c', ['feature']) },
+  { kind: 'commit', commit: createCommit('b', ['main']) },
+  { kind: 'analysis', analysis: createAnalysis('a') },
+  { kind: 'analysis', analysis: createAnalysis('c') },
+  { kind: 'analysis', analysis: createAnalysis('z') },
+];
+
+describe('applyRepoChangeEvents', () => {
+  it('adds new commits and analyses of loaded commits', () => {
+    const commits = applyRepoChangeEvents(loaded, events);
+
+    expect(commits.map(commit => commit.sha)).toEqual(['a', 'b', 'c']);
+    expect(commits[0].commit_analyses).toEqual([createAnalysis('a')]);
+  });
+
+  it('leaves out new commits that do not match the filters', () => {
+    const commits = applyRepoChangeEvents(loaded, events, { branch: 'main' });
+
+    expect(commits.map(commit => commit.sha)).toEqual(['a', 'b']);
+  });
+
+  it('adds commits once an analysis makes them match the filters', () => {
+    const commits = applyRepoChangeEvents(loaded, events, { types: ['BUG'] });
+
+    expect(commits.map(commit => commit.sha)).toEqual(['a', 'c']);
+    expect(commits[1].commit_analyses).toEqual([createAnalysis('c')]);
+  });
+
+  it('takes commits analyzed after they arrived from the known commits', () => {
+    const known = [...loaded, createCommit('k', ['main'])];
+    const commits = applyRepoChangeEvents(loaded, [{ kind: 'analysis', analysis: createAnalysis('k') }], { types: ['BUG'] }, known);
+
+    expect(commits.map(commit => commit.sha)).toEqual(['a', 'k']);
+  });
+});
+
+describe('getAddedCommitShas', () => {
+  it('lists each new commit matching the filters once', () => {
+    expect(getAddedCommitShas(loaded, events)).toEqual(['b', 'c']);
+    expect(getAddedCommitShas(loaded, events, { branch: 'feature' })).toEqual(['c']);
+    expect(getAddedCommitShas(loaded, events, { types: ['BUG'] })).toEqual(['c']);
+  });
+});
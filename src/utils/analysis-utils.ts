@@ -0,0 +1,142 @@
+import { AnalysisHighWaterMark, AnalysisJob, Commit } from '@/types';
+import type { CommitPageQuery, RepoChangeEvent } from '@/lib/data-source';
+import { matchesCommitPageQuery } from '@/lib/data-source/page-query';
+
+type CommitsQuery = Omit<CommitPageQuery, 'cursor' | 'limit'>;
+
+/**
+ * Whether the job is still queued or running
+ */
+export const isAnalysisJobActive = (job: AnalysisJob | null | undefined): boolean =>
+  !!job && (job.status === 'queued' || job.status === 'running');
+
+/**
+ * Gets the completion percentage of an analysis job.
+ * Fetching counts as the first half of the work and analyzing as the second.
+ */
+export const getAnalysisJobProgress = (job: AnalysisJob): number => {
+  if (job.status === 'succeeded') return 100;
+
+  const total = job.commits_total || job.commits_fetched;
+  if (!total) return 0;
+
+  const fetched = Math.min(job.commits_fetched / total, 1);
+  const analyzed = Math.min(job.commits_analyzed / total, 1);
+  return Math.round((fetched * 50) + (analyzed * 50));
+};
+
+/**
+ * Gets a human readable label for the job status
+ */
+export const getAnalysisJobStatusLabel = (job: AnalysisJob): string => {
+  switch (job.status) {
+    case 'queued':
+      return 'Waiting to start...';
+    case 'running':
+      return job.commits_analyzed > 0 ? 'Analyzing commits...' : 'Fetching commits...';
+    case 'succeeded':
+      return 'Analysis complete';
+    case 'failed':
+      return 'Analysis failed';
+    default:
+      return job.status;
+  }
+};
+
+/**
+ * Whether the commit has no `CommitAnalysis` row yet
+ */
+export const needsAnalysis = (commit: Commit): boolean =>
+  (commit.commit_analyses || commit.commit_analises || []).length === 0;
+
+/**
+ * Gets the newest commit (by date) as the high-water mark for incremental analysis
+ */
+export const getHighWaterMark = (commits: Commit[]): AnalysisHighWaterMark | null => {
+  if (!commits.length) return null;
+
+  const newest = commits.reduce((latest, commit) =>
+    new Date(commit.date).getTime() > new Date(latest.date).getTime() ? commit : latest
+  );
+
+  return { sha: newest.sha, date: newest.date };
+};
+
+/**
+ * Merges incoming commits into the existing list, replacing commits with the same SHA.
+ * Returns the merged list and how many commits were not present before.
+ */
+export const mergeCommits = (existing: Commit[], incoming: Commit[]): { commits: Commit[]; added: number } => {
+  const bySha = new Map(existing.map(commit => [commit.sha, commit]));
+  let added = 0;
+
+  incoming.forEach(commit => {
+    if (!bySha.has(commit.sha)) added++;
+    bySha.set(commit.sha, commit);
+  });
+
+  return { commits: Array.from(bySha.values()), added };
+};
+
+/**
+ * Applies realtime change events to a list of commits loaded with the given filters.
+ * A commit that doesn't match the filters is left out until an analysis makes it match,
+ * e.g. a new commit in a type-filtered list; its row is then taken from the same events
+ * or from `knownCommits` (such as the unfiltered timeline). Analyses for commits found
+ * in neither are ignored.
+ */
+export const applyRepoChangeEvents = (
+  commits: Commit[],
+  events: RepoChangeEvent[],
+  query: CommitsQuery = {},
+  knownCommits: Commit[] = []
+): Commit[] => {
+  const bySha = new Map(commits.map(commit => [commit.sha, commit]));
+  // Commits the list leaves out, kept so later events in the batch can bring them in
+  const leftOut = new Map(knownCommits.map(commit => [commit.sha, commit]));
+
+  const place = (commit: Commit) => {
+    if (bySha.has(commit.sha) || matchesCommitPageQuery(commit, query)) {
+      bySha.set(commit.sha, commit);
+      leftOut.delete(commit.sha);
+    } else {
+      leftOut.set(commit.sha, commit);
+    }
+  };
+
+  events.forEach(event => {
+    if (event.kind === 'commit') {
+      const existing = bySha.get(event.commit.sha) || leftOut.get(event.commit.sha);
+      // Row updates don't carry the nested analyses, so keep the ones already loaded
+      place({
+        ...event.commit,
+        commit_analyses: event.commit.commit_analyses || existing?.commit_analyses || existing?.commit_analises || [],
+      });
+    } else {
+      const commit = bySha.get(event.analysis.commit_sha) || leftOut.get(event.analysis.commit_sha);
+      if (!commit) return;
+
+      const analyses = (commit.commit_analyses || commit.commit_analises || [])
+        .filter(analysis => analysis.id !== event.analysis.id);
+      place({ ...commit, commit_analyses: [...analyses, event.analysis] });
+    }
+  });
+
+  return Array.from(bySha.values());
+};
+
+/**
+ * Gets the SHAs of the commits that realtime change events add to a list of commits
+ * loaded with the given filters, see `applyRepoChangeEvents`
+ */
+export const getAddedCommitShas = (
+  commits: Commit[],
+  events: RepoChangeEvent[],
+  query: CommitsQuery = {},
+  knownCommits: Commit[] = []
+): string[] => {
+  const loaded = new Set(commits.map(commit => commit.sha));
+  return applyRepoChangeEvents(commits, events, query, knownCommits)
+    .filter(commit => !loaded.has(commit.sha))
+    .map(commit => commit.sha);
+};
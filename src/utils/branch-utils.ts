@@ -0,0 +1,39 @@
+import { BranchComparison, BranchMembership, Commit } from '@/types';
+import { compareCommitsNewestFirst } from '@/lib/data-source';
+
+/**
+ * Overlays the commits of two branches.
+ * Returns every commit of either branch (newest first) and, for each SHA,
+ * whether it is on both branches or only one of them.
+ */
+export const compareBranches = (
+  base: string,
+  baseCommits: Commit[],
+  compare: string,
+  compareCommits: Commit[]
+): { commits: Commit[]; comparison: BranchComparison } => {
+  const membership = new Map<string, BranchMembership>();
+  const commitsBySha = new Map<string, Commit>();
+
+  baseCommits.forEach(commit => {
+    membership.set(commit.sha, 'base');
+    commitsBySha.set(commit.sha, commit);
+  });
+  compareCommits.forEach(commit => {
+    membership.set(commit.sha, membership.has(commit.sha) ? 'both' : 'compare');
+    if (!commitsBySha.has(commit.sha)) commitsBySha.set(commit.sha, commit);
+  });
+
+  const commits = Array.from(commitsBySha.values()).sort(compareCommitsNewestFirst);
+
+  return {
+    commits,
+    comparison: {
+      base,
+      compare,
+      membership,
+      // With both histories loaded, the newest shared commit is the merge base
+      divergedAt: commits.find(commit => membership.get(commit.sha) === 'both') || null,
+    },
+  };
+};
@@ -1,6 +1,22 @@
 
-import { format, parse, addDays, addWeeks, addMonths, addYears, differenceInDays, differenceInWeeks, differenceInMonths, differenceInYears } from 'date-fns';
-import { TimeScale } from '@/types';
+import {
+  format,
+  addHours,
+  addDays,
+  addWeeks,
+  addMonths,
+  addYears,
+  setHours,
+  setMonth,
+  setYear,
+  startOfHour,
+  startOfDay,
+  startOfWeek,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+} from 'date-fns';
+import { TimelineViewport, TimeScale } from '@/types';
 
 /**
  * Formats a date string into a readable format
@@ -60,6 +76,24 @@ export const calculateTimeRange = (commits: { date: string }[], scale: TimeScale
   return { start, end };
 };
 
+/**
+ * Moves a date forward by one `scale` interval
+ */
+export const addTimeInterval = (date: Date, scale: TimeScale): Date => {
+  switch (scale) {
+    case 'day':
+      return addDays(date, 1);
+    case 'week':
+      return addWeeks(date, 1);
+    case 'month':
+      return addMonths(date, 1);
+    case 'quarter':
+      return addMonths(date, 3);
+    case 'year':
+      return addYears(date, 1);
+  }
+};
+
 /**
  * Generates time intervals for the timeline
  */
@@ -69,29 +103,30 @@ export const generateTimeIntervals = (start: Date, end: Date, scale: TimeScale)
 
   while (current <= end) {
     intervals.push(new Date(current));
-    
-    switch (scale) {
-      case 'day':
-        current = addDays(current, 1);
-        break;
-      case 'week':
-        current = addWeeks(current, 1);
-        break;
-      case 'month':
-        current = addMonths(current, 1);
-        break;
-      case 'quarter':
-        current = addMonths(current, 3);
-        break;
-      case 'year':
-        current = addYears(current, 1);
-        break;
-    }
+    current = addTimeInterval(current, scale);
   }
 
   return intervals;
 };
 
+/**
+ * Gets the start of the `scale` interval containing a date, e.g. the Monday of its week
+ */
+export const startOfTimeInterval = (date: Date | number, scale: TimeScale): Date => {
+  switch (scale) {
+    case 'day':
+      return startOfDay(date);
+    case 'week':
+      return startOfWeek(date, { weekStartsOn: 1 });
+    case 'month':
+      return startOfMonth(date);
+    case 'quarter':
+      return startOfQuarter(date);
+    case 'year':
+      return startOfYear(date);
+  }
+};
+
 /**
  * Formats a time interval for display in the timeline
  */
@@ -114,37 +149,174 @@ export const formatTimeInterval = (date: Date, scale: TimeScale): string => {
 };
 
 /**
- * Calculates the position of a commit on the timeline
+ * Calculates the position (0-100%) of a commit on the timeline.
+ * Positions are continuous in milliseconds, so commits in the same week or
+ * month no longer snap to one spot.
  */
 export const calculateCommitPosition = (
   commitDate: string,
   timeStart: Date,
-  timeEnd: Date,
-  scale: TimeScale
+  timeEnd: Date
 ): number => {
-  const date = new Date(commitDate);
-  const totalDuration = getDurationByScale(timeStart, timeEnd, scale);
-  const commitDuration = getDurationByScale(timeStart, date, scale);
-  
-  return (commitDuration / totalDuration) * 100;
+  const totalDuration = Math.max(1, timeEnd.getTime() - timeStart.getTime());
+  return ((new Date(commitDate).getTime() - timeStart.getTime()) / totalDuration) * 100;
 };
 
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Zoom limits of the timeline viewport
+export const MIN_VIEWPORT_SPAN_MS = HOUR_MS;
+export const MAX_VIEWPORT_SPAN_MS = 50 * 365 * DAY_MS;
+
 /**
- * Gets the duration between two dates based on the scale
+ * Gets the viewport showing every commit, padded according to the time scale
  */
-const getDurationByScale = (start: Date, end: Date, scale: TimeScale): number => {
-  switch (scale) {
+export const getFittedViewport = (commits: { date: string }[], scale: TimeScale): TimelineViewport => {
+  const { start, end } = calculateTimeRange(commits, scale);
+  if (end.getTime() - start.getTime() < MIN_VIEWPORT_SPAN_MS) {
+    return { start: start.getTime() - DAY_MS, end: end.getTime() + DAY_MS };
+  }
+  return { start: start.getTime(), end: end.getTime() };
+};
+
+/**
+ * Zooms the viewport by a factor (< 1 zooms in) around an anchor given as a fraction of its width
+ */
+export const zoomViewport = (viewport: TimelineViewport, factor: number, anchor = 0.5): TimelineViewport => {
+  const span = viewport.end - viewport.start;
+  const nextSpan = Math.min(MAX_VIEWPORT_SPAN_MS, Math.max(MIN_VIEWPORT_SPAN_MS, span * factor));
+  const anchorTime = viewport.start + span * anchor;
+  const start = anchorTime - nextSpan * anchor;
+  return { start, end: start + nextSpan };
+};
+
+/**
+ * Gets a viewport showing a time range with `padding` (a fraction of the range) on each side
+ */
+export const getViewportForRange = (start: number, end: number, padding = 0.1): TimelineViewport => {
+  const center = (start + end) / 2;
+  const halfSpan = Math.max(MIN_VIEWPORT_SPAN_MS, (end - start) * (1 + 2 * padding)) / 2;
+  return { start: center - halfSpan, end: center + halfSpan };
+};
+
+/**
+ * Moves the viewport by a fraction of its width (positive moves forward in time)
+ */
+export const panViewport = (viewport: TimelineViewport, fraction: number): TimelineViewport => {
+  const offset = (viewport.end - viewport.start) * fraction;
+  return { start: viewport.start + offset, end: viewport.end + offset };
+};
+
+interface TickUnit {
+  unit: 'hour' | 'day' | 'week' | 'month' | 'year';
+  step: number;
+  approxMs: number;
+}
+
+// Candidate tick spacings, finest first
+const TICK_UNITS: TickUnit[] = [
+  { unit: 'hour', step: 1, approxMs: HOUR_MS },
+  { unit: 'hour', step: 3, approxMs: 3 * HOUR_MS },
+  { unit: 'hour', step: 6, approxMs: 6 * HOUR_MS },
+  { unit: 'hour', step: 12, approxMs: 12 * HOUR_MS },
+  { unit: 'day', step: 1, approxMs: DAY_MS },
+  { unit: 'day', step: 2, approxMs: 2 * DAY_MS },
+  { unit: 'week', step: 1, approxMs: 7 * DAY_MS },
+  { unit: 'week', step: 2, approxMs: 14 * DAY_MS },
+  { unit: 'month', step: 1, approxMs: 30 * DAY_MS },
+  { unit: 'month', step: 3, approxMs: 91 * DAY_MS },
+  { unit: 'month', step: 6, approxMs: 182 * DAY_MS },
+  { unit: 'year', step: 1, approxMs: 365 * DAY_MS },
+  { unit: 'year', step: 2, approxMs: 2 * 365 * DAY_MS },
+  { unit: 'year', step: 5, approxMs: 5 * 365 * DAY_MS },
+  { unit: 'year', step: 10, approxMs: 10 * 365 * DAY_MS },
+];
+
+const alignToTick = (time: number, { unit, step }: TickUnit): Date => {
+  switch (unit) {
+    case 'hour': {
+      const date = startOfHour(time);
+      return setHours(date, Math.floor(date.getHours() / step) * step);
+    }
+    case 'day':
+      return startOfDay(time);
+    case 'week':
+      return startOfWeek(time, { weekStartsOn: 1 });
+    case 'month': {
+      const date = startOfMonth(time);
+      return setMonth(date, Math.floor(date.getMonth() / step) * step);
+    }
+    case 'year': {
+      const date = startOfYear(time);
+      return setYear(date, Math.floor(date.getFullYear() / step) * step);
+    }
+  }
+};
+
+const addTickUnit = (date: Date, { unit, step }: TickUnit): Date => {
+  switch (unit) {
+    case 'hour':
+      return addHours(date, step);
     case 'day':
-      return Math.max(1, differenceInDays(end, start));
+      return addDays(date, step);
     case 'week':
-      return Math.max(1, differenceInWeeks(end, start));
+      return addWeeks(date, step);
     case 'month':
-      return Math.max(1, differenceInMonths(end, start));
-    case 'quarter':
-      return Math.max(1, differenceInMonths(end, start) / 3);
+      return addMonths(date, step);
     case 'year':
-      return Math.max(1, differenceInYears(end, start));
-    default:
-      return Math.max(1, differenceInDays(end, start));
+      return addYears(date, step);
   }
 };
+
+const formatTick = (date: Date, { unit, step }: TickUnit): string => {
+  switch (unit) {
+    case 'hour':
+      return date.getHours() === 0 ? format(date, 'MMM d') : format(date, 'HH:mm');
+    case 'day':
+    case 'week':
+      return format(date, 'MMM d');
+    case 'month':
+      if (step === 3) return `Q${Math.floor(date.getMonth() / 3) + 1} ${format(date, 'yyyy')}`;
+      return format(date, 'MMM yyyy');
+    case 'year':
+      return format(date, 'yyyy');
+  }
+};
+
+/**
+ * Generates the interval header ticks for a viewport, picking the finest unit
+ * (hours up to decades) that keeps labels at least `minSpacingPx` apart
+ */
+export const generateTimeTicks = (
+  viewport: TimelineViewport,
+  widthPx: number,
+  minSpacingPx = 90
+): { time: number; label: string }[] => {
+  const span = Math.max(1, viewport.end - viewport.start);
+  const tickUnit = TICK_UNITS.find(candidate => (candidate.approxMs / span) * widthPx >= minSpacingPx)
+    || TICK_UNITS[TICK_UNITS.length - 1];
+
+  const ticks = [];
+  for (let date = alignToTick(viewport.start, tickUnit); date.getTime() <= viewport.end; date = addTickUnit(date, tickUnit)) {
+    if (date.getTime() >= viewport.start) {
+      ticks.push({ time: date.getTime(), label: formatTick(date, tickUnit) });
+    }
+  }
+  return ticks;
+};
+
+/**
+ * Serializes a viewport for the `view` URL parameter
+ */
+export const formatViewportParam = (viewport: TimelineViewport): string =>
+  `${new Date(Math.round(viewport.start)).toISOString()}..${new Date(Math.round(viewport.end)).toISOString()}`;
+
+/**
+ * Parses the `view` URL parameter, returning null when it is missing or invalid
+ */
+export const parseViewportParam = (value: string | null): TimelineViewport | null => {
+  const [start, end] = (value || '').split('..').map(part => new Date(part).getTime());
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) return null;
+  return { start, end };
+};
@@ -1,9 +1,15 @@
-import { Commit, CommitType, TimelineFilters } from '@/types';
+import { Commit, CommitType, GroupBy, TimelineFilters } from '@/types';
+import { getCommitModules } from '@/utils/path-utils';
+import { matchesSearchExpression, parseSearchQuery, SearchTextMatcher } from '@/lib/search-query';
 
 /**
- * Filters commits based on the provided filters
+ * Filters commits based on the provided filters. `matchText` decides free-text
+ * search terms, e.g. through the full-text index; by default they match as substrings.
  */
-export const filterCommits = (commits: Commit[], filters: TimelineFilters): Commit[] => {
+export const filterCommits = (commits: Commit[], filters: TimelineFilters, matchText?: SearchTextMatcher): Commit[] => {
+  // The search term is a query (see `@/lib/search-query`), parsed once for all commits
+  const search = filters.searchTerm ? parseSearchQuery(filters.searchTerm) : null;
+  
   return commits.filter(commit => {
     // Get analyses from either property name
     const analyses = commit.commit_analyses || commit.commit_analises || [];
@@ -32,21 +38,9 @@ export const filterCommits = (commits: Commit[], filters: TimelineFilters): Comm
       return false;
     }
     
-    // Filter by search term
-    if (filters.searchTerm) {
-      const searchTermLower = filters.searchTerm.toLowerCase();
-      const matchesMessage = commit.message.toLowerCase().includes(searchTermLower);
-      const matchesDescription = commit.description.toLowerCase().includes(searchTermLower);
-      const matchesAuthor = commit.author.toLowerCase().includes(searchTermLower);
-      const matchesAnalysis = analyses.some(analysis => 
-        analysis.title?.toLowerCase().includes(searchTermLower) ||
-        analysis.idea?.toLowerCase().includes(searchTermLower) ||
-        analysis.description?.toLowerCase().includes(searchTermLower)
-      );
-      
-      if (!(matchesMessage || matchesDescription || matchesAuthor || matchesAnalysis)) {
-        return false;
-      }
+    // Filter by search query
+    if (search && !matchesSearchExpression(commit, search, matchText)) {
+      return false;
     }
     
     return true;
@@ -54,9 +48,14 @@ export const filterCommits = (commits: Commit[], filters: TimelineFilters): Comm
 };
 
 /**
- * Groups commits by the specified criterion
+ * Groups commits by the specified criterion. With `path`, a commit is placed
+ * in every module it touched, using `moduleGlobs` to name modules.
  */
-export const groupCommits = (commits: Commit[], groupBy: 'type' | 'author' | 'date'): Record<string, Commit[]> => {
+export const groupCommits = (
+  commits: Commit[],
+  groupBy: GroupBy,
+  moduleGlobs: string[] = []
+): Record<string, Commit[]> => {
   const grouped: Record<string, Commit[]> = {};
   
   if (groupBy === 'type') {
@@ -103,6 +102,15 @@ export const groupCommits = (commits: Commit[], groupBy: 'type' | 'author' | 'da
       }
       grouped[monthYear].push(commit);
     });
+  } else if (groupBy === 'path') {
+    commits.forEach(commit => {
+      getCommitModules(commit, moduleGlobs).forEach(module => {
+        if (!grouped[module]) {
+          grouped[module] = [];
+        }
+        grouped[module].push(commit);
+      });
+    });
   }
   
   return grouped;
@@ -121,6 +129,12 @@ export const getUniqueAuthors = (commits: Commit[]): string[] => {
   return Array.from(authors);
 };
 
+/**
+ * Sorts authors by commit count, most active first, then by name
+ */
+export const sortAuthorsByCount = (authors: string[], counts: Record<string, number>): string[] =>
+  [...authors].sort((a, b) => (counts[b] || 0) - (counts[a] || 0) || a.localeCompare(b));
+
 /**
  * Gets the commit type color class
  */
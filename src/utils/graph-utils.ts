@@ -0,0 +1,200 @@
+import { Commit } from '@/types';
+
+export interface GraphNode {
+  commit: Commit;
+  /** Row of the commit, newest first */
+  row: number;
+  /** Column the commit's node is drawn in */
+  lane: number;
+  isMerge: boolean;
+}
+
+/**
+ * Edge from a commit down to one of its parents. It leaves the child's lane,
+ * runs down `lane` and joins the parent's lane on the parent's row.
+ */
+export interface GraphEdge {
+  fromRow: number;
+  fromLane: number;
+  lane: number;
+  /** Row and lane of the parent, or null when the parent isn't loaded */
+  toRow: number | null;
+  toLane: number | null;
+}
+
+export interface CommitGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  laneCount: number;
+}
+
+/**
+ * Gets, for each commit, its parents among `visible`, looking through hidden
+ * (e.g. filtered out) commits to their nearest visible ancestors.
+ * Parents that can't be resolved are returned as null.
+ */
+const resolveVisibleParents = (commits: Commit[], allCommits: Commit[]): Map<string, (string | null)[]> => {
+  const visible = new Set(commits.map(commit => commit.sha));
+  const bySha = new Map(allCommits.map(commit => [commit.sha, commit]));
+  commits.forEach(commit => bySha.set(commit.sha, commit));
+  // Nearest visible ancestors of hidden commits
+  const ancestors = new Map<string, string[]>();
+
+  // Iterative, since hidden stretches of history can be thousands of commits long
+  const resolveHidden = (start: string) => {
+    const stack = [start];
+    const expanded = new Set<string>();
+    while (stack.length > 0) {
+      const sha = stack[stack.length - 1];
+      if (ancestors.has(sha)) {
+        stack.pop();
+        continue;
+      }
+
+      const parents = (bySha.get(sha)?.parent_shas || []).filter(parent => bySha.has(parent));
+      const pending = parents.filter(parent => !visible.has(parent) && !ancestors.has(parent));
+      if (pending.length > 0 && !expanded.has(sha)) {
+        expanded.add(sha);
+        stack.push(...pending);
+        continue;
+      }
+
+      const result = new Set<string>();
+      parents.forEach(parent => {
+        if (visible.has(parent)) {
+          result.add(parent);
+        } else {
+          ancestors.get(parent)?.forEach(ancestor => result.add(ancestor));
+        }
+      });
+      ancestors.set(sha, Array.from(result));
+      stack.pop();
+    }
+  };
+
+  const parentsBySha = new Map<string, (string | null)[]>();
+  commits.forEach(commit => {
+    const resolved = new Set<string | null>();
+    (commit.parent_shas || []).forEach(parent => {
+      if (visible.has(parent)) {
+        resolved.add(parent);
+        return;
+      }
+      if (!bySha.has(parent)) {
+        resolved.add(null);
+        return;
+      }
+      resolveHidden(parent);
+      const found = ancestors.get(parent) || [];
+      if (found.length === 0) resolved.add(null);
+      found.forEach(ancestor => resolved.add(ancestor));
+    });
+    parentsBySha.set(commit.sha, Array.from(resolved));
+  });
+
+  return parentsBySha;
+};
+
+/**
+ * Orders commits newest first while keeping every child above its parents
+ */
+const sortTopologically = (commits: Commit[], parentsBySha: Map<string, (string | null)[]>): Commit[] => {
+  // Same order as `compareCommitsNewestFirst`, with dates parsed once
+  const byDate = commits
+    .map(commit => ({ commit, time: new Date(commit.date).getTime() }))
+    .sort((a, b) => b.time - a.time || (a.commit.sha < b.commit.sha ? 1 : a.commit.sha > b.commit.sha ? -1 : 0))
+    .map(entry => entry.commit);
+  const indexBySha = new Map(byDate.map((commit, index) => [commit.sha, index]));
+  const childCounts = byDate.map(() => 0);
+  byDate.forEach(commit => {
+    parentsBySha.get(commit.sha)?.forEach(parent => {
+      if (parent) childCounts[indexBySha.get(parent)!]++;
+    });
+  });
+
+  // Indexes of commits whose children are all placed, largest first so the newest pops last
+  const ready = childCounts.flatMap((count, index) => (count === 0 ? [index] : [])).reverse();
+  const insertReady = (index: number) => {
+    let low = 0;
+    let high = ready.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (ready[mid] > index) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    ready.splice(low, 0, index);
+  };
+
+  const sorted: Commit[] = [];
+  while (ready.length > 0) {
+    const commit = byDate[ready.pop()!];
+    sorted.push(commit);
+    parentsBySha.get(commit.sha)?.forEach(parent => {
+      if (!parent) return;
+      const index = indexBySha.get(parent)!;
+      if (--childCounts[index] === 0) insertReady(index);
+    });
+  }
+
+  return sorted;
+};
+
+/**
+ * Lays out commits as a lane-based graph like `git log --graph`.
+ * `allCommits` lets edges run through commits hidden from `commits` by filters.
+ */
+export const buildCommitGraph = (commits: Commit[], allCommits: Commit[] = commits): CommitGraph => {
+  const parentsBySha = resolveVisibleParents(commits, allCommits);
+  const sorted = sortTopologically(commits, parentsBySha);
+  // SHA each lane is waiting for, or null when the lane is free
+  const lanes: (string | null)[] = [];
+  const nodes: GraphNode[] = [];
+  const edges: { edge: GraphEdge; parent: string | null }[] = [];
+
+  const takeFreeLane = () => {
+    const free = lanes.indexOf(null);
+    if (free !== -1) return free;
+    lanes.push(null);
+    return lanes.length - 1;
+  };
+
+  sorted.forEach((commit, row) => {
+    let lane = lanes.indexOf(commit.sha);
+    if (lane === -1) lane = takeFreeLane();
+    // Every lane that was waiting for this commit ends here
+    lanes.forEach((sha, index) => {
+      if (sha === commit.sha) lanes[index] = null;
+    });
+
+    const parents = parentsBySha.get(commit.sha) || [];
+    nodes.push({ commit, row, lane, isMerge: parents.length > 1 });
+
+    parents.forEach((parent, index) => {
+      if (!parent) {
+        edges.push({ edge: { fromRow: row, fromLane: lane, lane, toRow: null, toLane: null }, parent });
+        return;
+      }
+
+      let parentLane = lanes.indexOf(parent);
+      if (parentLane === -1) {
+        // The first parent continues the commit's lane; merged parents branch off into a free one
+        parentLane = index === 0 && lanes[lane] === null ? lane : takeFreeLane();
+        lanes[parentLane] = parent;
+      }
+      edges.push({ edge: { fromRow: row, fromLane: lane, lane: parentLane, toRow: null, toLane: null }, parent });
+    });
+  });
+
+  const nodeBySha = new Map(nodes.map(node => [node.commit.sha, node]));
+  return {
+    nodes,
+    edges: edges.map(({ edge, parent }) => {
+      const parentNode = parent ? nodeBySha.get(parent) : undefined;
+      return parentNode ? { ...edge, toRow: parentNode.row, toLane: parentNode.lane } : edge;
+    }),
+    laneCount: Math.max(1, lanes.length),
+  };
+};
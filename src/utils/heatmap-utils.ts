@@ -0,0 +1,52 @@
+import { addDays, endOfWeek, format, startOfWeek } from 'date-fns';
+import { CalendarColorBy, Commit } from '@/types';
+
+/**
+ * Gets the key of a local calendar day, e.g. `2024-03-01`
+ */
+export const getDayKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Counts commits per local calendar day, either all of them or only those of one type
+ */
+export const countCommitsByDay = (commits: Commit[], colorBy: CalendarColorBy): Map<string, number> => {
+  const counts = new Map<string, number>();
+
+  commits.forEach(commit => {
+    if (colorBy !== 'total') {
+      const analyses = commit.commit_analyses || commit.commit_analises || [];
+      if ((analyses[0]?.type || 'CHORE') !== colorBy) return;
+    }
+    const key = getDayKey(new Date(commit.date));
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  return counts;
+};
+
+/**
+ * Gets the years with commits, newest first
+ */
+export const getCommitYears = (commits: Commit[]): number[] =>
+  Array.from(new Set(commits.map(commit => new Date(commit.date).getFullYear()))).sort((a, b) => b - a);
+
+/**
+ * Gets the weeks (Sunday first) covering a year; days outside the year are null
+ */
+export const getCalendarWeeks = (year: number): (Date | null)[][] => {
+  const weeks: (Date | null)[][] = [];
+  const end = endOfWeek(new Date(year, 11, 31));
+
+  for (let day = startOfWeek(new Date(year, 0, 1)); day <= end; day = addDays(day, 1)) {
+    if (day.getDay() === 0) weeks.push([]);
+    weeks[weeks.length - 1].push(day.getFullYear() === year ? day : null);
+  }
+
+  return weeks;
+};
+
+/**
+ * Maps a day's commit count to one of four intensity levels (0 means no commits)
+ */
+export const getHeatmapLevel = (count: number, maxCount: number): number =>
+  count === 0 ? 0 : Math.max(1, Math.ceil((count / Math.max(1, maxCount)) * 4));
@@ -0,0 +1,63 @@
+import { Commit, CommitType, TimeScale } from '@/types';
+import { addTimeInterval, formatTimeInterval, generateTimeIntervals, startOfTimeInterval } from '@/utils/date-utils';
+
+/**
+ * Commits of each type in one `TimeScale` interval
+ */
+export type ActivityBucket = Record<CommitType, number> & {
+  /** Start of the interval (ms) */
+  start: number;
+  /** End of the interval (ms), exclusive */
+  end: number;
+  label: string;
+};
+
+export const COMMIT_TYPES: CommitType[] = ['FEATURE', 'WARNING', 'MILESTONE', 'BUG', 'CHORE'];
+
+/**
+ * Counts commits per type in every interval between the first and last commit,
+ * using the same buckets as `generateTimeIntervals`. Empty intervals are kept
+ * so gaps in activity show up on charts.
+ */
+export const getActivityBuckets = (commits: Commit[], scale: TimeScale): ActivityBucket[] => {
+  if (commits.length === 0) return [];
+
+  const times = commits.map(commit => new Date(commit.date).getTime());
+  const first = times.reduce((min, time) => Math.min(min, time), Infinity);
+  const last = times.reduce((max, time) => Math.max(max, time), -Infinity);
+  const intervals = generateTimeIntervals(startOfTimeInterval(first, scale), startOfTimeInterval(last, scale), scale);
+
+  const buckets = intervals.map((interval): ActivityBucket => ({
+    start: interval.getTime(),
+    end: addTimeInterval(interval, scale).getTime(),
+    label: formatTimeInterval(interval, scale),
+    FEATURE: 0,
+    WARNING: 0,
+    MILESTONE: 0,
+    BUG: 0,
+    CHORE: 0,
+  }));
+  const indexByStart = new Map(buckets.map((bucket, index) => [bucket.start, index]));
+
+  commits.forEach((commit, index) => {
+    const analyses = commit.commit_analyses || commit.commit_analises || [];
+    const bucket = buckets[indexByStart.get(startOfTimeInterval(times[index], scale).getTime())!];
+    bucket[analyses[0]?.type || 'CHORE']++;
+  });
+
+  return buckets;
+};
+
+/**
+ * Shows or hides a type in a type filter, where an empty filter shows every type.
+ * Hiding the only visible type is ignored, and showing every type clears the filter.
+ */
+export const toggleVisibleType = (types: CommitType[], type: CommitType): CommitType[] => {
+  const visible = types.length === 0 ? COMMIT_TYPES : types;
+  if (visible.includes(type)) {
+    return visible.length === 1 ? types : visible.filter(visibleType => visibleType !== type);
+  }
+
+  const next = COMMIT_TYPES.filter(visibleType => visibleType === type || visible.includes(visibleType));
+  return next.length === COMMIT_TYPES.length ? [] : next;
+};
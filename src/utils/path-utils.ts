@@ -0,0 +1,57 @@
+import { Commit } from '@/types';
+
+// Lane of files at the repository root, e.g. `README.md`
+export const ROOT_MODULE = '(root)';
+// Lane of commits without changed files, e.g. merges or commits ingested without file lists
+export const UNKNOWN_MODULE = '(no files)';
+
+/**
+ * Parses a comma-separated list of module globs, e.g. `packages/*,apps/*,src/features/*`
+ */
+export const parseModuleGlobs = (value?: string): string[] =>
+  (value || '')
+    .split(',')
+    .map(glob => glob.trim().replace(/^\/+|\/+$/g, ''))
+    .filter(Boolean);
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Converts a module glob into a regex matching the module's directory at the start of a path.
+ * `*` matches within one path segment and `**` across segments.
+ */
+const globToRegExp = (glob: string): RegExp => {
+  let regex = globCache.get(glob);
+  if (!regex) {
+    const source = glob
+      .split('/')
+      .map(segment => segment === '**'
+        ? '.+?'
+        : segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*'))
+      .join('/');
+    regex = new RegExp(`^(${source})(?:/|$)`);
+    globCache.set(glob, regex);
+  }
+  return regex;
+};
+
+/**
+ * Gets the module a file belongs to: the directory matched by the first
+ * matching glob, otherwise the file's top-level directory
+ */
+export const getFileModule = (file: string, moduleGlobs: string[] = []): string => {
+  for (const glob of moduleGlobs) {
+    const match = file.match(globToRegExp(glob));
+    if (match) return match[1];
+  }
+  const slash = file.indexOf('/');
+  return slash === -1 ? ROOT_MODULE : file.substring(0, slash);
+};
+
+/**
+ * Gets every module a commit touched, in the order its files are listed
+ */
+export const getCommitModules = (commit: Commit, moduleGlobs: string[] = []): string[] => {
+  if (!commit.files?.length) return [UNKNOWN_MODULE];
+  return Array.from(new Set(commit.files.map(file => getFileModule(file, moduleGlobs))));
+};
@@ -0,0 +1,50 @@
+import { Commit, CommitType, Tag } from '@/types';
+import { lowerBound } from '@/utils/timeline-utils';
+
+/**
+ * A moment where playback pauses by itself
+ */
+export interface PlaybackStop {
+  time: number;
+  kind: 'milestone' | 'tag';
+  label: string;
+}
+
+export type PlaybackTally = Record<CommitType, number>;
+
+const COMMIT_TYPES: CommitType[] = ['FEATURE', 'WARNING', 'MILESTONE', 'BUG', 'CHORE'];
+
+/**
+ * Gets the milestones and tags playback pauses on, oldest first
+ */
+export const getPlaybackStops = (commits: Commit[], tags: Tag[]): PlaybackStop[] => {
+  const milestones = commits.flatMap(commit => {
+    const analysis = (commit.commit_analyses || commit.commit_analises || [])[0];
+    if (analysis?.type !== 'MILESTONE') return [];
+    return [{ time: new Date(commit.date).getTime(), kind: 'milestone' as const, label: analysis.title || commit.message }];
+  });
+  const tagStops = tags.map(tag => ({ time: new Date(tag.date).getTime(), kind: 'tag' as const, label: tag.name }));
+
+  return [...milestones, ...tagStops].sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Gets the sorted commit times of each type, so tallies can be counted by binary search
+ */
+export const getCommitTimesByType = (commits: Commit[]): Record<CommitType, number[]> => {
+  const times = Object.fromEntries(COMMIT_TYPES.map(type => [type, [] as number[]])) as Record<CommitType, number[]>;
+  commits.forEach(commit => {
+    const analyses = commit.commit_analyses || commit.commit_analises || [];
+    times[analyses[0]?.type || 'CHORE'].push(new Date(commit.date).getTime());
+  });
+  COMMIT_TYPES.forEach(type => times[type].sort((a, b) => a - b));
+  return times;
+};
+
+/**
+ * Counts the commits of each type up to and including the cursor
+ */
+export const getPlaybackTally = (timesByType: Record<CommitType, number[]>, cursor: number): PlaybackTally =>
+  Object.fromEntries(
+    COMMIT_TYPES.map(type => [type, lowerBound(timesByType[type], cursor + 1)])
+  ) as PlaybackTally;
@@ -0,0 +1,113 @@
+import { SavedView, TimelineViewState } from '@/types';
+import { DEFAULT_VIEW_STATE, parseViewStateParams, writeViewStateParams } from '@/utils/url-state-utils';
+
+/**
+ * The part of the view state a saved view keeps
+ */
+export type SavedViewOptions = Pick<TimelineViewState, 'filters' | 'timeScale' | 'groupBy'>;
+
+/** Version of the JSON written by `exportSavedViews` */
+export const SAVED_VIEWS_EXPORT_VERSION = 1;
+
+const createSavedViewId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Serializes view options the way they are written to the URL, so equal options give equal queries
+ */
+export const toSavedViewQuery = ({ filters, timeScale, groupBy }: SavedViewOptions): string =>
+  writeViewStateParams(new URLSearchParams(), { ...DEFAULT_VIEW_STATE, filters, timeScale, groupBy }).toString();
+
+const readSavedViewQuery = (query: string): SavedViewOptions => {
+  const { filters, timeScale, groupBy } = parseViewStateParams(new URLSearchParams(query));
+  return { filters, timeScale, groupBy };
+};
+
+/**
+ * Reads the options stored in a saved view
+ */
+export const readSavedView = (view: SavedView): SavedViewOptions => readSavedViewQuery(view.query);
+
+export const createSavedView = (
+  repoName: string,
+  name: string,
+  options: SavedViewOptions,
+  now: Date = new Date()
+): SavedView => ({
+  id: createSavedViewId(),
+  repo_name: repoName,
+  name: name.trim(),
+  query: toSavedViewQuery(options),
+  is_default: false,
+  created_at: now.toISOString(),
+  updated_at: now.toISOString(),
+});
+
+/**
+ * Sorts views by name and keeps only the most recently updated default
+ */
+export const normalizeSavedViews = (views: SavedView[]): SavedView[] => {
+  const defaultView = views
+    .filter(view => view.is_default)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0];
+
+  return views
+    .map(view => view.is_default && view !== defaultView ? { ...view, is_default: false } : view)
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+};
+
+/**
+ * Combines two lists of views by id. When both contain a view, the more
+ * recently updated one wins, or `incoming` with `preferIncoming`.
+ */
+export const mergeSavedViews = (current: SavedView[], incoming: SavedView[], preferIncoming = false): SavedView[] => {
+  const byId = new Map(current.map(view => [view.id, view]));
+  incoming.forEach(view => {
+    const existing = byId.get(view.id);
+    if (!existing || preferIncoming || view.updated_at > existing.updated_at) {
+      byId.set(view.id, view);
+    }
+  });
+  return normalizeSavedViews(Array.from(byId.values()));
+};
+
+/**
+ * Validates views read from storage, a backend or an imported file and moves
+ * them to `repoName`. Accepts an array or the object written by `exportSavedViews`;
+ * throws when the value is neither.
+ */
+export const parseSavedViews = (value: unknown, repoName: string, now: Date = new Date()): SavedView[] => {
+  const list = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object' && Array.isArray((value as { views?: unknown }).views)
+      ? (value as { views: unknown[] }).views
+      : null;
+  if (!list) {
+    throw new Error('Expected a list of saved views');
+  }
+
+  const views = list.flatMap((item): SavedView[] => {
+    if (!item || typeof item !== 'object') return [];
+    const view = item as Partial<Record<keyof SavedView, unknown>>;
+    if (typeof view.name !== 'string' || !view.name.trim() || typeof view.query !== 'string') return [];
+
+    const createdAt = typeof view.created_at === 'string' ? view.created_at : now.toISOString();
+    return [{
+      id: typeof view.id === 'string' && view.id ? view.id : createSavedViewId(),
+      repo_name: repoName,
+      name: view.name.trim(),
+      // Round-trip the query to drop unknown or invalid parameters
+      query: toSavedViewQuery(readSavedViewQuery(view.query)),
+      is_default: view.is_default === true,
+      created_at: createdAt,
+      updated_at: typeof view.updated_at === 'string' ? view.updated_at : createdAt,
+    }];
+  });
+
+  return normalizeSavedViews(views);
+};
+
+/**
+ * Serializes the views of a repository for `parseSavedViews`
+ */
+export const exportSavedViews = (repoName: string, views: SavedView[]): string =>
+  JSON.stringify({ version: SAVED_VIEWS_EXPORT_VERSION, repo_name: repoName, views }, null, 2);
@@ -0,0 +1,26 @@
+import { Tag } from '@/types';
+
+/**
+ * Gets the tag released before the given one, if any
+ */
+export const getPreviousTag = (tags: Tag[], tag: Tag): Tag | null => {
+  const tagTime = new Date(tag.date).getTime();
+  return tags
+    .filter(other => other.name !== tag.name && new Date(other.date).getTime() < tagTime)
+    .reduce<Tag | null>(
+      (latest, other) => !latest || new Date(other.date) > new Date(latest.date) ? other : latest,
+      null
+    );
+};
+
+/**
+ * Gets the date window of the commits in a release: everything after the
+ * previous tag, up to and including the tagged commit
+ */
+export const getReleaseDateRange = (tags: Tag[], tag: Tag): { from: Date | null; to: Date } => {
+  const previous = getPreviousTag(tags, tag);
+  return {
+    from: previous ? new Date(new Date(previous.date).getTime() + 1) : null,
+    to: new Date(tag.date),
+  };
+};
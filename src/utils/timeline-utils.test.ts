@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Commit } from '@/types';
+import { buildClusterTree, clusterVisibleCommits, CommitClusterNode, TimelineGroup } from '@/utils/timeline-utils';
+
+const createCommit = (time: number): Commit => ({
+  sha: `c${time}`,
+  created_at: new Date(time).toISOString(),
+  repo_name: 'acme/widgets',
+  author: 'Ada',
+  author_url: '',
+  author_email: 'ada@example.com',
+  date: new Date(time).toISOString(),
+  message: `Commit at ${time}`,
+  url: '',
+  description: '',
+});
+
+const createGroup = (times: number[]): TimelineGroup => ({
+  name: 'BUG',
+  commits: times.map(createCommit),
+  times,
+  root: buildClusterTree(times),
+});
+
+// Nests the commit indexes the way the tree merged them, e.g. `((0 1) 2)`
+const toShape = (node: CommitClusterNode): string =>
+  node.children.length === 0 ? `${node.from}` : `(${node.children.map(toShape).join(' ')})`;
+
+// A 1000px wide viewport over 0-1000ms, so a pixel is a millisecond
+const viewport = { start: 0, end: 1000 };
+const cluster = (group: TimelineGroup, collisionPx: number, until?: number) =>
+  clusterVisibleCommits(group, viewport, 1000, collisionPx, until).map(({ commits }) => commits.map(commit => commit.sha));
+
+describe('buildClusterTree', () => {
+  it('merges the neighbouring clusters with the closest centres first', () => {
+    const root = buildClusterTree([0, 10, 30, 100, 105, 400])!;
+
+    expect(toShape(root)).toBe('((((0 1) 2) (3 4)) 5)');
+    expect(root.height).toBeCloseTo(351);
+    expect(root.children[0].height).toBeCloseTo(89.17, 2);
+    expect(root.children[0].children.map(child => child.height)).toEqual([25, 5]);
+    expect(root).toMatchObject({ start: 0, end: 400, from: 0, to: 6, time: 107.5 });
+  });
+
+  it('returns null without commits', () => {
+    expect(buildClusterTree([])).toBeNull();
+  });
+});
+
+describe('clusterVisibleCommits', () => {
+  const group = createGroup([0, 10, 30, 100, 105, 400]);
+
+  it('cuts the tree where clusters would collide on screen', () => {
+    expect(cluster(group, 1)).toEqual([['c0'], ['c10'], ['c30'], ['c100'], ['c105'], ['c400']]);
+    expect(cluster(group, 8)).toEqual([['c0'], ['c10'], ['c30'], ['c100', 'c105'], ['c400']]);
+    expect(cluster(group, 30)).toEqual([['c0', 'c10', 'c30'], ['c100', 'c105'], ['c400']]);
+    expect(cluster(group, 100)).toEqual([['c0', 'c10', 'c30', 'c100', 'c105'], ['c400']]);
+  });
+
+  it('draws each cluster at the mean time of its commits', () => {
+    expect(clusterVisibleCommits(group, viewport, 1000, 30).map(({ position }) => position))
+      .toEqual([expect.closeTo(1.333, 3), 10.25, 40]);
+  });
+
+  it('leaves out commits after the until cutoff', () => {
+    expect(cluster(group, 8, 102)).toEqual([['c0'], ['c10'], ['c30'], ['c100']]);
+    expect(cluster(group, 100, 50)).toEqual([['c0', 'c10', 'c30']]);
+  });
+
+  it('merges neighbours that still collide once the cutoff splits a cluster', () => {
+    // The cutoff splits (10 11), leaving 10 close enough to the (0 3) cluster to join it
+    expect(cluster(createGroup([0, 3, 10, 11]), 20, 10.5)).toEqual([['c0', 'c3', 'c10']]);
+  });
+});
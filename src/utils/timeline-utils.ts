@@ -0,0 +1,316 @@
+import { Commit, CommitType, GroupBy, TimelineViewport } from '@/types';
+import { groupCommits } from '@/utils/filter-utils';
+
+/**
+ * A node of a row's cluster hierarchy. Leaves are single commits; each parent
+ * merges the two neighbouring clusters whose centres were closest in time.
+ */
+export interface CommitClusterNode {
+  /** Mean commit time (ms), where the cluster's marker is drawn */
+  time: number;
+  /** Times of the oldest and newest commit */
+  start: number;
+  end: number;
+  /** Range of the cluster's commits in the row (end exclusive) */
+  from: number;
+  to: number;
+  /** Distance (ms) between the centres of the two merged children, 0 for single commits */
+  height: number;
+  children: CommitClusterNode[];
+}
+
+/**
+ * A timeline row: the commits of one group sorted oldest first, with their
+ * timestamps precomputed so visible commits can be found by binary search
+ */
+export interface TimelineGroup {
+  name: string;
+  commits: Commit[];
+  times: number[];
+  /** Cluster hierarchy of the row, cut at the current zoom level when rendering */
+  root: CommitClusterNode | null;
+}
+
+export interface ClusteredCommit {
+  /** Position on the time axis, 0-100% of the viewport */
+  position: number;
+  /** Times (ms) of the oldest and newest commit */
+  start: number;
+  end: number;
+  commits: Commit[];
+}
+
+interface PairEntry {
+  distance: number;
+  left: number;
+  right: number;
+  leftVersion: number;
+  rightVersion: number;
+}
+
+const pushPair = (heap: PairEntry[], entry: PairEntry) => {
+  heap.push(entry);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent].distance <= heap[i].distance) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+};
+
+const popPair = (heap: PairEntry[]): PairEntry | undefined => {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length > 0 && last) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && heap[left].distance < heap[smallest].distance) smallest = left;
+      if (right < heap.length && heap[right].distance < heap[smallest].distance) smallest = right;
+      if (smallest === i) break;
+      [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+      i = smallest;
+    }
+  }
+  return top;
+};
+
+const mergeClusterNodes = (a: CommitClusterNode, b: CommitClusterNode): CommitClusterNode => {
+  const sizeA = a.to - a.from;
+  const sizeB = b.to - b.from;
+  return {
+    time: (a.time * sizeA + b.time * sizeB) / (sizeA + sizeB),
+    start: a.start,
+    end: b.end,
+    from: a.from,
+    to: b.to,
+    height: b.time - a.time,
+    children: [a, b],
+  };
+};
+
+/**
+ * Builds the cluster hierarchy of sorted commit times by repeatedly merging
+ * the two neighbouring clusters with the closest centres
+ */
+export const buildClusterTree = (times: number[]): CommitClusterNode | null => {
+  if (times.length === 0) return null;
+
+  // Slot i holds the cluster whose oldest commit is i; merged slots are unlinked
+  const slots: CommitClusterNode[] = times.map((time, i) => ({
+    time, start: time, end: time, from: i, to: i + 1, height: 0, children: [],
+  }));
+  const next = times.map((_, i) => (i + 1 < times.length ? i + 1 : -1));
+  const previous = times.map((_, i) => i - 1);
+  const versions = times.map(() => 0);
+  const heap: PairEntry[] = [];
+
+  const queuePair = (left: number, right: number) => {
+    pushPair(heap, {
+      distance: slots[right].time - slots[left].time,
+      left,
+      right,
+      leftVersion: versions[left],
+      rightVersion: versions[right],
+    });
+  };
+
+  for (let i = 0; i + 1 < times.length; i++) queuePair(i, i + 1);
+
+  for (let entry = popPair(heap); entry; entry = popPair(heap)) {
+    const { left, right } = entry;
+    // Skip pairs where either side has merged since the pair was queued
+    if (next[left] !== right || versions[left] !== entry.leftVersion || versions[right] !== entry.rightVersion) continue;
+
+    slots[left] = mergeClusterNodes(slots[left], slots[right]);
+    versions[left]++;
+    versions[right]++;
+    next[left] = next[right];
+    if (next[right] !== -1) previous[next[right]] = left;
+    next[right] = -1;
+
+    if (previous[left] !== -1) queuePair(previous[left], left);
+    if (next[left] !== -1) queuePair(left, next[left]);
+  }
+
+  return slots[0];
+};
+
+/**
+ * Groups commits into timeline rows, dropping empty groups
+ */
+export const buildTimelineGroups = (commits: Commit[], groupBy: GroupBy, moduleGlobs: string[] = []): TimelineGroup[] =>
+  Object.entries(groupCommits(commits, groupBy, moduleGlobs))
+    .filter(([, groupCommits]) => groupCommits.length > 0)
+    .map(([name, groupCommits]) => {
+      const sorted = groupCommits
+        .map(commit => ({ commit, time: new Date(commit.date).getTime() }))
+        .sort((a, b) => a.time - b.time);
+      const times = sorted.map(entry => entry.time);
+      return {
+        name,
+        commits: sorted.map(entry => entry.commit),
+        times,
+        root: buildClusterTree(times),
+      };
+    });
+
+/**
+ * Clusters the commits of a row that overlap on screen at the current zoom.
+ * The row's hierarchy is cut where children would be drawn at least
+ * `collisionPx` apart, so clusters split into their children as you zoom in;
+ * neighbours that still collide after the cut are merged.
+ * Commits after `until` (e.g. the playback cursor) are left out.
+ */
+export const clusterVisibleCommits = (
+  group: TimelineGroup,
+  viewport: TimelineViewport,
+  widthPx: number,
+  collisionPx: number,
+  until = Infinity
+): ClusteredCommit[] => {
+  if (!group.root) return [];
+
+  const span = Math.max(1, viewport.end - viewport.start);
+  // Marker centres closer than this many ms overlap on screen
+  const threshold = (collisionPx / Math.max(1, widthPx)) * span;
+  const nodes: { from: number; to: number; time: number }[] = [];
+
+  // Depth-first, children left to right, so the cut comes out oldest first
+  const stack = [group.root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node.end < viewport.start - threshold || node.start > viewport.end + threshold || node.start > until) continue;
+
+    // Clusters reaching past `until` are split until only earlier commits remain
+    if ((node.height > threshold || node.end > until) && node.children.length > 0) {
+      stack.push(node.children[1], node.children[0]);
+      continue;
+    }
+
+    const previous = nodes[nodes.length - 1];
+    if (previous && previous.to === node.from && node.time - previous.time < threshold) {
+      const size = previous.to - previous.from;
+      const nodeSize = node.to - node.from;
+      previous.time = (previous.time * size + node.time * nodeSize) / (size + nodeSize);
+      previous.to = node.to;
+    } else {
+      nodes.push({ from: node.from, to: node.to, time: node.time });
+    }
+  }
+
+  return nodes.map(({ from, to, time }) => ({
+    position: ((time - viewport.start) / span) * 100,
+    start: group.times[from],
+    end: group.times[to - 1],
+    commits: group.commits.slice(from, to),
+  }));
+};
+
+/**
+ * Gets the index of the first time that is >= the given time
+ */
+export const lowerBound = (times: number[], time: number): number => {
+  let low = 0;
+  let high = times.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (times[mid] < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+/**
+ * Gets the index of the first commit of a row after the given time, or -1
+ */
+export const getNextCommitIndex = (group: TimelineGroup, time: number): number => {
+  const index = lowerBound(group.times, time + 1);
+  return index < group.times.length ? index : -1;
+};
+
+/**
+ * Gets the index of the last commit of a row before the given time, or -1
+ */
+export const getPreviousCommitIndex = (group: TimelineGroup, time: number): number =>
+  lowerBound(group.times, time) - 1;
+
+/**
+ * Gets the index of the commit of a row closest to the given time, or -1 for an empty row
+ */
+export const getNearestCommitIndex = (group: TimelineGroup, time: number): number => {
+  if (group.times.length === 0) return -1;
+  const index = Math.min(lowerBound(group.times, time), group.times.length - 1);
+  if (index > 0 && time - group.times[index - 1] < group.times[index] - time) return index - 1;
+  return index;
+};
+
+export type DensityBin = Record<CommitType, number>;
+
+const emptyDensityBin = (): DensityBin => ({ FEATURE: 0, WARNING: 0, MILESTONE: 0, BUG: 0, CHORE: 0 });
+
+/**
+ * Counts commits per type in `binCount` equal time slices of a range
+ */
+export const getCommitDensity = (commits: Commit[], range: TimelineViewport, binCount: number): DensityBin[] => {
+  const bins = Array.from({ length: binCount }, emptyDensityBin);
+  const span = Math.max(1, range.end - range.start);
+
+  commits.forEach(commit => {
+    const time = new Date(commit.date).getTime();
+    if (time < range.start || time > range.end) return;
+    const bin = Math.min(binCount - 1, Math.floor(((time - range.start) / span) * binCount));
+    const analyses = commit.commit_analyses || commit.commit_analises || [];
+    bins[bin][analyses[0]?.type || 'CHORE']++;
+  });
+
+  return bins;
+};
+
+export interface ClusterSummary {
+  /** Commit count per type, most common first */
+  types: { type: CommitType; count: number }[];
+  /** Commit count per author, most active first */
+  authors: { name: string; count: number }[];
+}
+
+/**
+ * Summarizes the commits of a cluster by type and author
+ */
+export const summarizeCluster = (commits: Commit[]): ClusterSummary => {
+  const typeCounts = new Map<CommitType, number>();
+  const authorCounts = new Map<string, number>();
+
+  commits.forEach(commit => {
+    const analyses = commit.commit_analyses || commit.commit_analises || [];
+    const type = analyses[0]?.type || 'CHORE';
+    typeCounts.set(type, (typeCounts.get(type) || 0) + 1);
+    authorCounts.set(commit.author, (authorCounts.get(commit.author) || 0) + 1);
+  });
+
+  return {
+    types: Array.from(typeCounts, ([type, count]) => ({ type, count })).sort((a, b) => b.count - a.count),
+    authors: Array.from(authorCounts, ([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count),
+  };
+};
+
+/**
+ * Gets the range of rows (end exclusive) that intersect the scrolled viewport, plus `overscan` rows on each side
+ */
+export const getVisibleRowRange = (
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  rowCount: number,
+  overscan = 2
+): { start: number; end: number } => ({
+  start: Math.max(0, Math.floor(scrollTop / rowHeight) - overscan),
+  end: Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan),
+});
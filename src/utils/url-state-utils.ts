@@ -0,0 +1,102 @@
+import { endOfDay, format, isValid, parseISO, startOfDay } from 'date-fns';
+import { CommitType, GroupBy, TimelineViewMode, TimelineViewState, TimeScale } from '@/types';
+import { COMMIT_TYPES } from '@/utils/insights-utils';
+
+const TIME_SCALES: TimeScale[] = ['day', 'week', 'month', 'quarter', 'year'];
+const GROUP_BYS: GroupBy[] = ['type', 'author', 'date', 'path'];
+const VIEW_MODES: TimelineViewMode[] = ['timeline', 'calendar', 'graph', 'insights'];
+
+// URL parameters owned by the view state; `repo`, `branch`, `view` etc. are left alone
+const VIEW_STATE_PARAMS = ['type', 'author', 'from', 'to', 'q', 'scale', 'group', 'mode', 'commit', 'release'];
+
+export const DEFAULT_VIEW_STATE: TimelineViewState = {
+  filters: {
+    types: [],
+    authors: [],
+    dateRange: { from: null, to: null },
+    searchTerm: '',
+  },
+  timeScale: 'week',
+  groupBy: 'type',
+  viewMode: 'timeline',
+  selectedRelease: null,
+};
+
+const pickOption = <T extends string>(value: string | null, options: T[], fallback: T): T =>
+  options.find(option => option === value) || fallback;
+
+// Whole days are written as `yyyy-MM-dd`, any other bound as an ISO timestamp
+const formatDateParam = (date: Date, dayBound: Date): string =>
+  date.getTime() === dayBound.getTime() ? format(date, 'yyyy-MM-dd') : date.toISOString();
+
+const parseDateParam = (value: string | null, toDayBound: (date: Date) => Date): Date | null => {
+  if (!value) return null;
+  const date = parseISO(value);
+  if (!isValid(date)) return null;
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? toDayBound(date) : date;
+};
+
+/**
+ * Reads the view state from URL parameters. Missing or invalid parameters
+ * fall back to the defaults, so hand-edited links still open.
+ */
+export const parseViewStateParams = (params: URLSearchParams): TimelineViewState => {
+  const types = (params.get('type') || '')
+    .split(',')
+    .map(type => type.trim().toUpperCase())
+    .filter((type, index, all): type is CommitType =>
+      COMMIT_TYPES.includes(type as CommitType) && all.indexOf(type) === index
+    );
+
+  return {
+    filters: {
+      types,
+      authors: [...new Set(params.getAll('author').filter(Boolean))],
+      dateRange: {
+        from: parseDateParam(params.get('from'), startOfDay),
+        to: parseDateParam(params.get('to'), endOfDay),
+      },
+      searchTerm: params.get('q') || '',
+    },
+    timeScale: pickOption(params.get('scale'), TIME_SCALES, DEFAULT_VIEW_STATE.timeScale),
+    groupBy: pickOption(params.get('group'), GROUP_BYS, DEFAULT_VIEW_STATE.groupBy),
+    viewMode: pickOption(params.get('mode'), VIEW_MODES, DEFAULT_VIEW_STATE.viewMode),
+    selectedCommit: params.get('commit') || undefined,
+    selectedRelease: params.get('release') || null,
+  };
+};
+
+/**
+ * Writes the view state into `params`, replacing any previous view state.
+ * Defaults are omitted to keep links short.
+ */
+export const writeViewStateParams = (params: URLSearchParams, state: TimelineViewState): URLSearchParams => {
+  VIEW_STATE_PARAMS.forEach(name => params.delete(name));
+  const { types, authors, dateRange, searchTerm } = state.filters;
+
+  if (types.length > 0) params.set('type', types.map(type => type.toLowerCase()).join(','));
+  authors.forEach(author => params.append('author', author));
+  if (dateRange.from) params.set('from', formatDateParam(dateRange.from, startOfDay(dateRange.from)));
+  if (dateRange.to) params.set('to', formatDateParam(dateRange.to, endOfDay(dateRange.to)));
+  if (searchTerm.trim()) params.set('q', searchTerm.trim());
+  if (state.timeScale !== DEFAULT_VIEW_STATE.timeScale) params.set('scale', state.timeScale);
+  if (state.groupBy !== DEFAULT_VIEW_STATE.groupBy) params.set('group', state.groupBy);
+  if (state.viewMode !== DEFAULT_VIEW_STATE.viewMode) params.set('mode', state.viewMode);
+  if (state.selectedCommit) params.set('commit', state.selectedCommit);
+  if (state.selectedRelease) params.set('release', state.selectedRelease);
+  return params;
+};
+
+/**
+ * Identifies the view state held by `params`, ignoring every other parameter
+ */
+export const getViewStateKey = (params: URLSearchParams): string =>
+  VIEW_STATE_PARAMS
+    .flatMap(name => params.getAll(name).map(value => `${name}=${encodeURIComponent(value)}`))
+    .join('&');
+
+/**
+ * Key of the URL parameters `state` is written as, comparable to `getViewStateKey`
+ */
+export const getViewStateParamsKey = (state: TimelineViewState): string =>
+  getViewStateKey(writeViewStateParams(new URLSearchParams(), state));
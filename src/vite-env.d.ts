@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** `supabase` (default), `rest` or `memory` */
+  readonly VITE_DATA_SOURCE?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_FIXTURE_URL?: string;
+  /** Self-hosted forges, e.g. `git.example.com=gitea,code.example.com=gitlab` */
+  readonly VITE_FORGE_HOSTS?: string;
+  /** Module globs for the path grouping, e.g. `packages/*,apps/*` */
+  readonly VITE_MODULE_GLOBS?: string;
+  /** `local` (default) or `backend` to also store saved views in the data source */
+  readonly VITE_SAVED_VIEWS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}